@@ -1,3 +1,58 @@
+import { WinterResponse } from './types';
+
 export class WinterRequestError extends Error {}
 export class InvalidHandlerError extends Error {}
-export class ValidationFailedError extends WinterRequestError {}
\ No newline at end of file
+export class ValidationFailedError extends WinterRequestError {}
+
+/**
+ * Thrown by a transport when a request fails, is cancelled, or the server responds with an error status.
+ */
+export class TransportError extends WinterRequestError {
+	/**
+	 * The response, if the server responded.
+	 */
+	response?: WinterResponse;
+
+	/**
+	 * True if the request was cancelled.
+	 */
+	cancelled: boolean;
+
+	constructor(message: string, response?: WinterResponse, cancelled = false) {
+		super(message);
+
+		this.response = response;
+		this.cancelled = cancelled;
+	}
+}
+
+/**
+ * Thrown when an asset received from the server fails to load.
+ */
+export class AssetLoadError extends WinterRequestError {
+	/**
+	 * The asset URL.
+	 */
+	url: string;
+
+	constructor(message: string, url: string) {
+		super(message);
+
+		this.url = url;
+	}
+}
+
+/**
+ * Thrown by the test kit when a request assertion fails.
+ */
+export class RequestAssertionError extends WinterRequestError {}
+
+/**
+ * Thrown when a request is queued to be sent once the browser is back online.
+ * It is treated like a cancelled request, so the error callbacks are not called.
+ */
+export class RequestQueuedError extends TransportError {
+	constructor(message: string) {
+		super(message, undefined, true);
+	}
+}
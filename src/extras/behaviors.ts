@@ -0,0 +1,188 @@
+import { PartialPlacement } from './utils/placements';
+
+export interface Behavior {
+	/**
+	 * Initializes the behavior on an element, e.g. a date picker.
+	 *
+	 * @param element The matching element.
+	 */
+	attach(element: HTMLElement): void,
+
+	/**
+	 * Releases the behavior from an element, before it is removed from the page.
+	 *
+	 * @param element The matching element.
+	 */
+	detach?(element: HTMLElement): void,
+}
+
+interface RegisteredBehavior {
+	selector: string,
+	behavior: Behavior,
+	root: Document | ShadowRoot | HTMLElement,
+	elements: Set<HTMLElement>,
+}
+
+const behaviors: Array<RegisteredBehavior> = [];
+
+/**
+ * Removes the listeners for partial updates, by the root they were added to.
+ */
+const rootListeners = new Map<Document | ShadowRoot | HTMLElement, () => void>();
+
+/**
+ * Registers a behavior that is attached to matching elements on the page, and to matching elements in partials as they are injected.
+ * It is detached from elements in content that is about to be replaced.
+ *
+ * @param selector The selector of the elements.
+ * @param behavior The behavior.
+ * @param root     The node to find elements and listen for partial updates in, e.g. a shadow root. Defaults to the document.
+ * @returns A function that detaches the behavior from all elements and unregisters it.
+ */
+export function registerBehavior(selector: string, behavior: Behavior, root: Document | ShadowRoot | HTMLElement = document): () => void {
+	const registered: RegisteredBehavior = { selector, behavior, root, elements: new Set() };
+
+	behaviors.push(registered);
+	listen(root);
+
+	if (document.readyState === 'loading') {
+		document.addEventListener('DOMContentLoaded', () => attach(registered, root), { once: true });
+	} else {
+		attach(registered, root);
+	}
+
+	return () => {
+		const index = behaviors.indexOf(registered);
+
+		if (index !== -1) {
+			behaviors.splice(index, 1);
+			registered.elements.forEach((element) => detach(registered, element));
+			unlisten(root);
+		}
+	};
+}
+
+/**
+ * Attaches the registered behaviors to matching elements in a container, including the container itself.
+ *
+ * @param root The container.
+ */
+export function attachBehaviors(root: ParentNode = document): void {
+	behaviors.forEach((registered) => attach(registered, root));
+}
+
+/**
+ * Detaches the registered behaviors from matching elements in a container.
+ *
+ * @param root        The container.
+ * @param includeRoot Also detach behaviors from the container itself.
+ */
+export function detachBehaviors(root: Node, includeRoot = false): void {
+	behaviors.forEach((registered) => {
+		registered.elements.forEach((element) => {
+			if ((includeRoot && element === root) || (element !== root && root.contains(element))) {
+				detach(registered, element);
+			}
+		});
+	});
+}
+
+function attach(registered: RegisteredBehavior, root: ParentNode): void {
+	const elements = Array.from(root.querySelectorAll<HTMLElement>(registered.selector));
+
+	if (root instanceof HTMLElement && root.matches(registered.selector)) {
+		elements.unshift(root);
+	}
+
+	elements.forEach((element) => {
+		if (!registered.elements.has(element)) {
+			registered.elements.add(element);
+			registered.behavior.attach(element);
+		}
+	});
+}
+
+function detach(registered: RegisteredBehavior, element: HTMLElement): void {
+	registered.elements.delete(element);
+
+	if (registered.behavior.detach) {
+		registered.behavior.detach(element);
+	}
+}
+
+/**
+ * Detaches behaviors from the elements that were removed from the page by other means than replacing content, e.g. morphing.
+ */
+function detachRemoved(): void {
+	behaviors.forEach((registered) => {
+		registered.elements.forEach((element) => {
+			if (!element.isConnected) detach(registered, element);
+		});
+	});
+}
+
+/**
+ * Listens for partial updates in a root. Content that is replaced is detached before the update, and new content is
+ * attached after it. Partial update events are not composed, so each shadow root is listened to separately.
+ *
+ * @param root The root of the behaviors.
+ */
+function listen(root: Document | ShadowRoot | HTMLElement): void {
+	if (rootListeners.size === 0) {
+		window.addEventListener('ajaxUpdateComplete', detachRemoved);
+	}
+
+	if (rootListeners.has(root)) return;
+
+	const inRoot = (registered: RegisteredBehavior) => registered.root === root;
+
+	const onBeforeReplace = (ev: CustomEvent<{ placement: PartialPlacement }>) => {
+		if (!(ev.target instanceof HTMLElement) || ev.detail.placement.mode === 'morph') {
+			return;
+		}
+
+		const target = ev.target;
+		const includeRoot = ['outer', 'remove'].includes(ev.detail.placement.mode);
+
+		behaviors.filter(inRoot).forEach((registered) => {
+			registered.elements.forEach((element) => {
+				if ((includeRoot && element === target) || (element !== target && target.contains(element))) {
+					detach(registered, element);
+				}
+			});
+		});
+	};
+
+	const onUpdate = (ev: Event) => {
+		if (ev.target instanceof HTMLElement) {
+			const target = ev.target;
+
+			behaviors.filter(inRoot).forEach((registered) => attach(registered, target));
+		}
+	};
+
+	root.addEventListener('ajaxBeforeReplace', onBeforeReplace);
+	root.addEventListener('ajaxUpdate', onUpdate);
+
+	rootListeners.set(root, () => {
+		root.removeEventListener('ajaxBeforeReplace', onBeforeReplace);
+		root.removeEventListener('ajaxUpdate', onUpdate);
+	});
+}
+
+/**
+ * Removes the listeners of a root once no behavior is registered in it, and the window listener once no behavior is
+ * registered at all.
+ *
+ * @param root The root of the behaviors.
+ */
+function unlisten(root: Document | ShadowRoot | HTMLElement): void {
+	if (rootListeners.has(root) && !behaviors.some((registered) => registered.root === root)) {
+		rootListeners.get(root)();
+		rootListeners.delete(root);
+	}
+
+	if (rootListeners.size === 0) {
+		window.removeEventListener('ajaxUpdateComplete', detachRemoved);
+	}
+}
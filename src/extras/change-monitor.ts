@@ -0,0 +1,186 @@
+import DataStore from '../utils/data-store';
+import { getFormFields, serializeFields } from '../utils';
+import { formChanged, formUnchanged } from './events';
+import { WinterRequestExtras } from '.';
+
+interface MonitoredForm {
+	/**
+	 * The serialized form data when the form was last saved.
+	 */
+	snapshot: string,
+	changed: boolean,
+}
+
+const defaultMessage = 'There are unsaved changes. Are you sure you want to leave?';
+
+const forms = new Set<HTMLFormElement>();
+const confirmed = new WeakSet<WinterRequestExtras>();
+const sentSnapshots = new WeakMap<WinterRequestExtras, string>();
+
+let listening = false;
+let unloadConfirmed = false;
+
+/**
+ * Serializes the form data the same way as JSON requests, so that changes are compared by value.
+ */
+function serialize(form: HTMLFormElement): string {
+	return JSON.stringify(serializeFields(getFormFields(form)));
+}
+
+/**
+ * Compares the form data with the snapshot, triggering the `changed` or `unchanged` event on the form when its state changes.
+ */
+function check(form: HTMLFormElement): void {
+	if (!DataStore.has(form, 'change_monitor')) return;
+
+	const monitor: MonitoredForm = DataStore.get(form, 'change_monitor');
+	const changed = serialize(form) !== monitor.snapshot;
+
+	if (changed === monitor.changed) return;
+
+	monitor.changed = changed;
+	form.toggleAttribute('data-changed', changed);
+	form.dispatchEvent(changed ? formChanged() : formUnchanged());
+}
+
+/**
+ * Tracks unsaved changes in a form, like the Winter CMS change monitor:
+ *   * The form receives the `data-changed` attribute, and triggers the `changed` and `unchanged` events, as it is edited.
+ *   * Leaving the page while the form is changed asks for confirmation. The message is set with the `data-window-close-confirm` attribute.
+ *   * So do requests from other elements that redirect, using `onConfirmMessage`.
+ *   * The form is saved when a request from it succeeds.
+ *
+ * @param form The form.
+ * @returns A function that stops tracking the form.
+ */
+export function monitorChanges(form: HTMLFormElement): () => void {
+	if (DataStore.has(form, 'change_monitor_dispose')) {
+		return DataStore.get(form, 'change_monitor_dispose');
+	}
+
+	listen();
+
+	const onEdit = () => check(form);
+	const onReset = () => window.setTimeout(() => check(form));
+
+	form.addEventListener('input', onEdit);
+	form.addEventListener('change', onEdit);
+	form.addEventListener('reset', onReset);
+
+	DataStore.put(form, 'change_monitor', { snapshot: serialize(form), changed: false });
+	forms.add(form);
+
+	const dispose = () => {
+		form.removeEventListener('input', onEdit);
+		form.removeEventListener('change', onEdit);
+		form.removeEventListener('reset', onReset);
+		form.removeAttribute('data-changed');
+
+		['change_monitor', 'change_monitor_dispose'].forEach((key) => DataStore.remove(form, key));
+		forms.delete(form);
+	};
+
+	DataStore.put(form, 'change_monitor_dispose', dispose);
+
+	return dispose;
+}
+
+/**
+ * Saves the current data of a monitored form, so that it is no longer changed.
+ *
+ * @param form The form.
+ */
+export function resetChangeMonitor(form: HTMLFormElement): void {
+	if (!DataStore.has(form, 'change_monitor')) return;
+
+	(DataStore.get(form, 'change_monitor') as MonitoredForm).snapshot = serialize(form);
+	check(form);
+}
+
+/**
+ * Remembers the data of the request's form as it is sent, so that `saveSentForm()` only saves what was sent.
+ */
+export function snapshotSentForm(this: WinterRequestExtras): void {
+	if (this.form && DataStore.has(this.form, 'change_monitor')) {
+		sentSnapshots.set(this, serialize(this.form));
+	}
+}
+
+/**
+ * Saves the data of the request's form that was sent, once the request succeeded.
+ * Changes made while the request was in flight remain unsaved.
+ */
+export function saveSentForm(this: WinterRequestExtras): void {
+	if (!this.form || !sentSnapshots.has(this) || !DataStore.has(this.form, 'change_monitor')) return;
+
+	(DataStore.get(this.form, 'change_monitor') as MonitoredForm).snapshot = sentSnapshots.get(this);
+	sentSnapshots.delete(this);
+	check(this.form);
+}
+
+/**
+ * Checks if a monitored form has unsaved changes.
+ *
+ * @param form The form.
+ * @returns True if the form is changed.
+ */
+export function isFormChanged(form: HTMLFormElement): boolean {
+	return DataStore.has(form, 'change_monitor') ? (DataStore.get(form, 'change_monitor') as MonitoredForm).changed : false;
+}
+
+/**
+ * Gets the monitored forms on the page that have unsaved changes.
+ *
+ * @returns The changed forms.
+ */
+export function getChangedForms(): Array<HTMLFormElement> {
+	return Array.from(forms).filter((form) => form.isConnected && isFormChanged(form));
+}
+
+/**
+ * Asks the user to confirm leaving the page if forms other than the request's form have unsaved changes.
+ * Each request only asks once.
+ *
+ * @returns True if the request may navigate away.
+ */
+export async function confirmDiscardChanges(this: WinterRequestExtras): Promise<boolean> {
+	const changed = getChangedForms().filter((form) => form !== this.form);
+
+	if (!changed.length || confirmed.has(this)) {
+		return true;
+	}
+
+	if (!(await this.options.onConfirmMessage.call(this, changed[0].dataset.windowCloseConfirm || defaultMessage))) {
+		return false;
+	}
+
+	confirmed.add(this);
+
+	return true;
+}
+
+/**
+ * Lets the page unload without asking again, after leaving was confirmed with `confirmDiscardChanges()`.
+ * Asking is resumed if the navigation only changes the hash.
+ */
+export function skipUnloadConfirmation(): void {
+	unloadConfirmed = true;
+	window.addEventListener('hashchange', () => unloadConfirmed = false, { once: true });
+}
+
+/**
+ * Asks for confirmation before the page is unloaded while forms have unsaved changes.
+ */
+function listen(): void {
+	if (listening) return;
+	listening = true;
+
+	window.addEventListener('beforeunload', (ev) => {
+		const changed = getChangedForms();
+
+		if (changed.length && !unloadConfirmed) {
+			ev.preventDefault();
+			ev.returnValue = changed[0].dataset.windowCloseConfirm || defaultMessage;
+		}
+	});
+}
@@ -1,29 +1,62 @@
 import * as events from './events';
 import baseDefaults from '../request/defaults';
+import { injectAssets } from './utils/inject-assets';
 import { injectPartials } from './utils/inject-partials';
+import { reportProgress } from './utils/progress';
+import { renderFlashMessage } from './utils/flash-messages';
+import { getFieldElements, showValidationMessages } from './utils/validation-messages';
 import { RequestOptions } from './types';
 import { trackInput } from './utils/track-input';
+import { showConfirmDialog } from './utils/confirm-dialog';
+import { confirmDiscardChanges, saveSentForm, skipUnloadConfirmation } from './change-monitor';
 
 const defaults: RequestOptions = {
+	concurrency: 'parallel',
+	assetsTimeout: 10000,
+	invalidClass: 'is-invalid',
+	loadingClass: 'wn-loading',
+	updateMode: 'replace',
+	executeScripts: false,
+	pushState: false,
+	offline: false,
+	clientValidate: true,
+	// Chunks are sent with their index, so sending one twice is safe
+	chunkRetry: { statusCodes: [408, 429, 500, 502, 503, 504], networkErrors: true },
+	confirmDialog: true,
 	//handlers: {
 	onConfirmMessage: async function (message?) {
+		let response: boolean | Promise<boolean>;
 
-		const _event = window.dispatchEvent(events.ajaxConfirmMessage({ context: this, message }));
+		const _event = window.dispatchEvent(events.ajaxConfirmMessage({ context: this, message, respondWith: (value) => response = value }));
 
-		if (!_event) return;
+		// A listener resolves the confirmation
+		if (response !== undefined) {
+			return !!(await response);
+		}
+
+		if (!_event) return false;
+
+		message = message || 'Are you sure?';
 
-		// Use native window.confirm() if Event#preventDefault() was not called
-		if (message) {
+		if (!this.options.confirmDialog) {
 			return await baseDefaults.onConfirmMessage.call(this, message);
 		}
+
+		return await showConfirmDialog({
+			message,
+			title: this.options.confirmTitle,
+			ok: this.options.confirmOk,
+			cancel: this.options.confirmCancel,
+			template: this.options.confirmTemplate,
+		});
 	},
 	onErrorMessage: async function (message) {
 
 		const _event = window.dispatchEvent(events.ajaxErrorMessage({ context: this, message }));
 
 		// Use native window.alert() if Event#preventDefault() was not called
-		if (!_event && message) {
-			await baseDefaults.onError.call(this, message);
+		if (_event && message) {
+			await baseDefaults.onErrorMessage.call(this, message);
 		}
 	},
 	onSetup: async function() {
@@ -56,8 +89,10 @@ const defaults: RequestOptions = {
 		
 		// Handle flash messages
 		if (this.options.flash && response.data.X_WINTER_FLASH_MESSAGES) {
-			for (const [type, message] of Object.entries<string>(response.data.X_WINTER_FLASH_MESSAGES)) {
-				await this.options.onFlashMessage.call(this, message, type);
+			for (const [type, messages] of Object.entries(response.data.X_WINTER_FLASH_MESSAGES)) {
+				for (const message of [].concat(messages)) {
+					await this.options.onFlashMessage.call(this, message, type);
+				}
 			}
 		}
 
@@ -65,6 +100,11 @@ const defaults: RequestOptions = {
 		await this.options.onUpdateResponse.call(this, response.data);
 
 		if (element) element.dispatchEvent(events.ajaxSuccess({ context: this, data: response.data }));
+
+		// Redirect to the `redirect` option, unless the server redirected
+		if (this.options.redirect && !response.data.X_WINTER_REDIRECT) {
+			await this.options.onRedirectResponse.call(this, this.options.redirect);
+		}
 	},
 	onError: async function (error) {
 		const element = this.form || this.element;
@@ -73,7 +113,7 @@ const defaults: RequestOptions = {
 			if (element) element.dispatchEvent(events.ajaxFail({ context: this, error }));
 		}
 	
-		let errorMsg: string = error.response.statusText;
+		let errorMsg: string = error.response ? error.response.statusText : error.message;
 
 		// Status 406 is a 'smart error' that returns a response object.
 		// It is processed the same way as a successful response.
@@ -89,6 +129,17 @@ const defaults: RequestOptions = {
 
 		this.options.onErrorMessage.call(this, errorMsg);
 	},
+	onRetry: async function (attempt, error, delay) {
+		const element = this.form || this.element;
+
+		if (element) element.dispatchEvent(events.ajaxRetry({ context: this, attempt, error, delay }));
+	},
+	onUploadProgress: function (progress) {
+		reportProgress.call(this, 'upload', progress);
+	},
+	onDownloadProgress: function (progress) {
+		reportProgress.call(this, 'download', progress);
+	},
 	onComplete: async function (response, error) {
 		const element = this.form || this.element;
 
@@ -101,7 +152,7 @@ const defaults: RequestOptions = {
 		if (element) element.dispatchEvent(events.ajaxComplete({ context: this, response, error }));
 	},
 	onUpdateResponse: async function (data) {
-		baseDefaults.onUpdateResponse.call(this, data);
+		await baseDefaults.onUpdateResponse.call(this, data);
 
 		// Handle partials
 		await injectPartials.call(this, this.options.update, data);
@@ -111,32 +162,49 @@ const defaults: RequestOptions = {
 
 		if (element) element.dispatchEvent(events.ajaxValidation({ context: this, message, fields }));
 
+		if (!this.form) return;
+
 		let isFirstInvalidField = true;
 
 		for (const [fieldName, fieldMessages] of Object.entries(fields)) {
 			// Convert `nameArray.fieldName` to `nameArray[fieldName]`
 			const arrayName = fieldName.replace(/\.(\w+)/g, '[$1]');
 
-			const fieldElements = this.form.querySelectorAll<HTMLElement>(`[name="${arrayName}"], [name="${arrayName}[]"], [name$="[${arrayName}]"], [name$="[${arrayName}][]"]`);
+			const fieldElements = getFieldElements(this.form, fieldName);
 			if (fieldElements.length > 0 && fieldElements[0].matches(':enabled')) {
 				const fieldElement = fieldElements[0];
 
 				const _event = window.dispatchEvent(events.ajaxInvalidField({ fieldElement, arrayName, fieldMessages, isFirstInvalidField }));
 
 				if (isFirstInvalidField) {
-					if (!_event) fieldElement.focus();
+					if (_event) fieldElement.focus();
 					isFirstInvalidField = false;
 				}
 			}
 		}
+
+		showValidationMessages(this.form, message, fields, this.options.invalidClass);
+	},
+	onFlashMessage: async function (message, type) {
+		if (this.options.flashContainer) {
+			renderFlashMessage(message, type, { container: this.options.flashContainer });
+		}
 	},
 	onRedirectResponse: async function (url) {
+		// The request succeeded, so its own form is saved, while changes in other forms are discarded
+		saveSentForm.call(this);
+
+		if (!(await confirmDiscardChanges.call(this))) return;
+
+		skipUnloadConfirmation();
+
 		window.addEventListener('popstate', () => {
 			if (this.element) this.element.dispatchEvent(events.ajaxRedirected());
 		}, { once: true });
 
 		await baseDefaults.onRedirectResponse.call(this, url);
 	},
+	onAssets: injectAssets,
 	onTrackInput: trackInput,
 	//},
 	ajaxHandlers: {
@@ -1,6 +1,9 @@
-import { AxiosError, AxiosResponse } from 'axios';
 import { WinterRequestExtras } from '.';
-import { WinterResponseData } from '../types';
+import { AssetLoadError, TransportError } from '../errors';
+import { WinterRequestProgress, WinterResponse, WinterResponseAssets, WinterResponseData } from '../types';
+import { PartialPlacement } from './utils/placements';
+import { HistorySnapshot } from './utils/history';
+import { QueuedRequest } from './utils/offline-queue';
 
 /**
  * @event WinterRequestExtras#ajaxBeforeSend Triggered on the window object before sending the request.
@@ -16,16 +19,16 @@ export const ajaxBeforeSend = (detail: {context: WinterRequestExtras}): CustomEv
  * @param detail Additional data to pass to the event handler.
  * @returns The custom event that can be dispatched.
  */
-export const ajaxBeforeUpdate = (detail: {context: WinterRequestExtras, response: AxiosResponse}): CustomEvent => new CustomEvent('ajaxBeforeUpdate', { bubbles: true,  detail });
+export const ajaxBeforeUpdate = (detail: {context: WinterRequestExtras, response: WinterResponse}): CustomEvent => new CustomEvent('ajaxBeforeUpdate', { bubbles: true,  detail });
 
 /**
  * The handler gets 5 parameters: the event object, the context object, the data object received from the server, the status text string, and the jqXHR object.
  * 
- * @event WinterRequestExtras#ajaxUpdate Triggered on an element after it has been updated with the framework.
+ * @event WinterRequestExtras#ajaxUpdate Triggered on an element after it has been updated with the framework, or on the inserted elements for placements that keep the existing content, e.g. append or after.
  * @param detail Additional data to pass to the event handler.
  * @returns The custom event that can be dispatched.
  */
-export const ajaxUpdate = (detail: { context: WinterRequestExtras, data: any }): CustomEvent => new CustomEvent('ajaxUpdate', { bubbles: true,  detail });
+export const ajaxUpdate = (detail: { context: WinterRequestExtras, data: any, placement: PartialPlacement }): CustomEvent => new CustomEvent('ajaxUpdate', { bubbles: true,  detail });
 
 /**
  * The handler gets 5 parameters: the event object, the context object, the data object received from the server, the status text string, and the jqXHR object.
@@ -34,7 +37,7 @@ export const ajaxUpdate = (detail: { context: WinterRequestExtras, data: any }):
  * @param detail Additional data to pass to the event handler.
  * @returns The custom event that can be dispatched.
  */
-export const ajaxUpdateComplete = (detail: { context: WinterRequestExtras, data: WinterResponseData }): CustomEvent => new CustomEvent('ajaxUpdateComplete', { bubbles: true,  detail });
+export const ajaxUpdateComplete = (detail: { context: WinterRequestExtras, data: WinterResponseData, placements: Array<PartialPlacement> }): CustomEvent => new CustomEvent('ajaxUpdateComplete', { bubbles: true,  detail });
 
 /**
  * The handler gets 5 parameters: the event object, the context object, the data object received from the server, the status text string, and the jqXHR object.
@@ -52,7 +55,7 @@ export const ajaxSuccess = (detail: { context: WinterRequestExtras, data: Winter
  * @param detail Additional data to pass to the event handler.
  * @returns The custom event that can be dispatched.
  */
-export const ajaxComplete = (detail: { context: WinterRequestExtras, response?: AxiosResponse<WinterResponseData>, error?: AxiosError<WinterResponseData> }): CustomEvent => new CustomEvent('ajaxComplete', { bubbles: true,  detail });
+export const ajaxComplete = (detail: { context: WinterRequestExtras, response?: WinterResponse, error?: TransportError }): CustomEvent => new CustomEvent('ajaxComplete', { bubbles: true,  detail });
 
 /**
  * The handler gets 5 parameters: the event object, the context object, the data object received from the server, the status text string, and the jqXHR object.
@@ -61,7 +64,24 @@ export const ajaxComplete = (detail: { context: WinterRequestExtras, response?:
  * @param detail Additional data to pass to the event handler.
  * @returns The custom event that can be dispatched.
  */
-export const ajaxError = (detail: { context: WinterRequestExtras, error?: AxiosError<WinterResponseData> }): CustomEvent => new CustomEvent('ajaxError', { bubbles: true,  detail });
+export const ajaxError = (detail: { context: WinterRequestExtras, error?: TransportError }): CustomEvent => new CustomEvent('ajaxError', { bubbles: true,  detail });
+
+/**
+ * The handler gets 4 parameters: the context, the number of the failed attempt, the error object, and the delay before the next attempt.
+ * 
+ * @event WinterRequestExtras#ajaxRetry Triggered on the form object before a failed request is sent again.
+ * @param detail Additional data to pass to the event handler.
+ * @returns The custom event that can be dispatched.
+ */
+export const ajaxRetry = (detail: { context: WinterRequestExtras, attempt: number, error: TransportError, delay: number }): CustomEvent => new CustomEvent('ajaxRetry', { bubbles: true,  detail });
+
+/**
+ * @event WinterRequestExtras#ajaxProgress Triggered on the form object as the request is uploaded and the response is downloaded.
+ * @param detail           Additional data to pass to the event handler.
+ * @param detail.direction Either `upload` or `download`.
+ * @returns The custom event that can be dispatched.
+ */
+export const ajaxProgress = (detail: { context: WinterRequestExtras, direction: 'upload' | 'download' } & WinterRequestProgress): CustomEvent => new CustomEvent('ajaxProgress', { bubbles: true,  detail });
 
 /**
  * Display an error message to the user.
@@ -77,15 +97,19 @@ export const ajaxError = (detail: { context: WinterRequestExtras, error?: AxiosE
 export const ajaxErrorMessage = (detail: { context: WinterRequestExtras, message?: string}): CustomEvent => new CustomEvent('ajaxErrorMessage', { bubbles: true,  detail });
 
 /**
- * This is useful for implementing custom confirm logic/interface instead of native javascript confirm box.
+ * This is useful for implementing custom confirm logic/interface instead of the built-in confirmation dialog.
+ * 
+ * Call `detail.respondWith()` with a boolean, or a promise that resolves to one, to confirm or cancel the request.
+ * Calling `preventDefault()` without responding cancels the request.
  * 
  * @event WinterRequestExtras#ajaxConfirmMessage Triggered on the window object when the `confirm` option is given.
- * @param detail         Additional data to pass to the event handler.
- * @param detail.context The request instance that triggered the event.
- * @param detail.message The confirmation message to present to the user.
+ * @param detail             Additional data to pass to the event handler.
+ * @param detail.context     The request instance that triggered the event.
+ * @param detail.message     The confirmation message to present to the user.
+ * @param detail.respondWith Resolves the confirmation.
  * @returns The custom event that can be dispatched.
  */
-export const ajaxConfirmMessage = (detail: {context: WinterRequestExtras, message?: string}): CustomEvent => new CustomEvent('ajaxConfirmMessage', { bubbles: true,  detail });
+export const ajaxConfirmMessage = (detail: {context: WinterRequestExtras, message?: string, respondWith(response: boolean | Promise<boolean>): void}): CustomEvent => new CustomEvent('ajaxConfirmMessage', { bubbles: true, cancelable: true, detail });
 
 /**
  * 
@@ -124,7 +148,84 @@ export const ajaxRedirected = <T = any>(detail?: T): CustomEvent => new CustomEv
  * @param detail Additional data to pass to the event handler.
  * @returns The custom event that can be dispatched.
  */
-export const ajaxBeforeReplace = <T = any>(detail?: T): CustomEvent => new CustomEvent('ajaxBeforeReplace', { bubbles: true,  detail });
+export const ajaxBeforeReplace = (detail: { context: WinterRequestExtras, placement: PartialPlacement }): CustomEvent => new CustomEvent('ajaxBeforeReplace', { bubbles: true,  detail });
+
+/**
+ * @event WinterRequestExtras#ajaxAssetsLoaded Triggered on the form object after the assets received from the server have loaded.
+ * @param detail Additional data to pass to the event handler.
+ * @returns The custom event that can be dispatched.
+ */
+export const ajaxAssetsLoaded = (detail: { context: WinterRequestExtras, assets: WinterResponseAssets }): CustomEvent => new CustomEvent('ajaxAssetsLoaded', { bubbles: true,  detail });
+
+/**
+ * @event WinterRequestExtras#ajaxAssetsError Triggered on the form object once all assets received from the server have settled, if any of them failed to load.
+ * @param detail Additional data to pass to the event handler. `errors` holds every failure, and `error` the first one.
+ * @returns The custom event that can be dispatched.
+ */
+export const ajaxAssetsError = (detail: { context: WinterRequestExtras, assets: WinterResponseAssets, error: AssetLoadError, errors: Array<AssetLoadError> }): CustomEvent => new CustomEvent('ajaxAssetsError', { bubbles: true,  detail });
+
+/**
+ * @event WinterRequestExtras#ajaxScriptError Triggered on a script from a partial if it fails to load or throws an error.
+ * @param detail Additional data to pass to the event handler.
+ * @returns The custom event that can be dispatched.
+ */
+export const ajaxScriptError = (detail: { context: WinterRequestExtras, script: HTMLScriptElement, error: Error }): CustomEvent => new CustomEvent('ajaxScriptError', { bubbles: true,  detail });
+
+/**
+ * @event WinterRequestExtras#ajaxBackgroundError Triggered on the form or element of a request sent by `watch()`, polling, or lazy loading, if one of its callbacks throws an error. Falls back to the window object.
+ * @param detail Additional data to pass to the event handler.
+ * @returns The custom event that can be dispatched.
+ */
+export const ajaxBackgroundError = (detail: { context: WinterRequestExtras, error: Error }): CustomEvent => new CustomEvent('ajaxBackgroundError', { bubbles: true,  detail });
+
+/**
+ * @event WinterRequestExtras#ajaxHistoryRestore Triggered on the window object before the partials of a history entry are restored. Call `preventDefault()` to restore them yourself.
+ * @param detail Additional data to pass to the event handler.
+ * @returns The custom event that can be dispatched.
+ */
+export const ajaxHistoryRestore = (detail: { context: WinterRequestExtras, snapshot: HistorySnapshot }): CustomEvent => new CustomEvent('ajaxHistoryRestore', { bubbles: true, cancelable: true, detail });
+
+/**
+ * @event WinterRequestExtras#ajaxQueued Triggered on the form object when a request is queued because the browser is offline.
+ * @param detail Additional data to pass to the event handler.
+ * @returns The custom event that can be dispatched.
+ */
+export const ajaxQueued = (detail: { context: WinterRequestExtras, request: QueuedRequest }): CustomEvent => new CustomEvent('ajaxQueued', { bubbles: true,  detail });
+
+/**
+ * @event WinterRequestExtras#ajaxReplayDone Triggered on the window object when a queued request is replayed successfully.
+ * @param detail Additional data to pass to the event handler.
+ * @returns The custom event that can be dispatched.
+ */
+export const ajaxReplayDone = (detail: { request: QueuedRequest, response: WinterResponse }): CustomEvent => new CustomEvent('ajaxReplayDone', { bubbles: true,  detail });
+
+/**
+ * @event WinterRequestExtras#ajaxReplayFail Triggered on the window object when the server responds to a replayed request with an error.
+ * @param detail Additional data to pass to the event handler.
+ * @returns The custom event that can be dispatched.
+ */
+export const ajaxReplayFail = (detail: { request: QueuedRequest, error: TransportError }): CustomEvent => new CustomEvent('ajaxReplayFail', { bubbles: true,  detail });
+
+/**
+ * @event WinterRequestExtras#ajaxChunkUploaded Triggered on the form object after each chunk of a file is uploaded.
+ * @param detail Additional data to pass to the event handler.
+ * @returns The custom event that can be dispatched.
+ */
+export const ajaxChunkUploaded = (detail: { context: WinterRequestExtras, file: File, index: number, total: number, uploadId: string }): CustomEvent => new CustomEvent('ajaxChunkUploaded', { bubbles: true,  detail });
+
+/**
+ * @event WinterRequestExtras#changed Triggered on a monitored form when it is changed from its saved state.
+ * @param detail Additional data to pass to the event handler.
+ * @returns The custom event that can be dispatched.
+ */
+export const formChanged = <T = any>(detail?: T): CustomEvent => new CustomEvent('changed', { bubbles: true,  detail });
+
+/**
+ * @event WinterRequestExtras#unchanged Triggered on a monitored form when it is back to its saved state, or is saved.
+ * @param detail Additional data to pass to the event handler.
+ * @returns The custom event that can be dispatched.
+ */
+export const formUnchanged = <T = any>(detail?: T): CustomEvent => new CustomEvent('unchanged', { bubbles: true,  detail });
 
 /*
  * These events are fired on the triggering element:
@@ -150,21 +251,21 @@ export const ajaxPromise = (detail: {context: WinterRequestExtras}): CustomEvent
  * @param detail Additional data to pass to the event handler.
  * @returns The custom event that can be dispatched.
  */
-export const ajaxDone = (detail: { context: WinterRequestExtras, response: AxiosResponse }): CustomEvent => new CustomEvent('ajaxDone', { bubbles: true,  detail });
+export const ajaxDone = (detail: { context: WinterRequestExtras, response: WinterResponse }): CustomEvent => new CustomEvent('ajaxDone', { bubbles: true,  detail });
 
 /**
  * @event WinterRequestExtras#ajaxFail Triggered finally if the AJAX request was successful.
  * @param detail Additional data to pass to the event handler.
  * @returns The custom event that can be dispatched.
  */
-export const ajaxFail = (detail: {context: WinterRequestExtras, error: AxiosError}): CustomEvent => new CustomEvent('ajaxFail', { bubbles: true,  detail });
+export const ajaxFail = (detail: {context: WinterRequestExtras, error: TransportError}): CustomEvent => new CustomEvent('ajaxFail', { bubbles: true,  detail });
 
 /**
  * @event WinterRequestExtras#ajaxAlways Triggered regardless if the AJAX request fails or was successful.
  * @param detail Additional data to pass to the event handler.
  * @returns The custom event that can be dispatched.
  */
-export const ajaxAlways = (detail: { context: WinterRequestExtras, response?: AxiosResponse, error?: AxiosError}): CustomEvent => new CustomEvent('ajaxAlways', { bubbles: true,  detail });
+export const ajaxAlways = (detail: { context: WinterRequestExtras, response?: WinterResponse, error?: TransportError}): CustomEvent => new CustomEvent('ajaxAlways', { bubbles: true,  detail });
 
 /*
  * JavaScript Events
@@ -1,11 +1,35 @@
-import merge from 'deepmerge';
-import { RequestOptions } from './types';
+import { ConcurrencyMode, RequestOptions } from './types';
 import defaults from './defaults';
-import { ValidationFailedError } from '../errors';
+import { RequestQueuedError, TransportError, WinterRequestError } from '../errors';
 import * as events from './events';
-import { WinterRequest } from '../request';
-import { getElement, getRequestDataAttrs, isEmpty, isInputLike, paramToObj, stringToBoolean } from '../utils';
+import { Middleware, WinterRequest } from '../request';
+import { flattenFields, getElement, getFormFields, getRequestDataAttrs, isInputLike, mergeData, mergeOptions, paramToObj, serializeFields, stringToBoolean, withoutUndefined } from '../utils';
 import { WinterResponse } from '../types';
+import { withConcurrency } from './utils/concurrency';
+import { clearValidationMessages } from './utils/validation-messages';
+import { requestFinished, requestStarted, startLoading, stopLoading } from './utils/loading';
+import { TransportRequest } from '../transports';
+import { poll } from './utils/poll';
+import { pushHistoryState } from './utils/history';
+import { enqueueRequest } from './utils/offline-queue';
+import { getValidationSummary, validateForm } from './utils/validate-rules';
+import { confirmDiscardChanges, saveSentForm, snapshotSentForm } from './change-monitor';
+import { hasChunkableFiles, uploadChunks } from './utils/chunked-upload';
+
+export * from './behaviors';
+export { default as watch, WatchOptions } from './watch';
+export * from './loading-stripe';
+export { enableInspector, InspectorOptions } from './inspector';
+export { showConfirmDialog, ConfirmDialogOptions } from './utils/confirm-dialog';
+export { monitorChanges, resetChangeMonitor, isFormChanged, getChangedForms } from './change-monitor';
+export { getInFlightCount, onInFlightChange } from './utils/loading';
+export * from './utils/flash-messages';
+export { registerPlacement, Placement, PartialPlacement } from './utils/placements';
+export { stopPolling } from './utils/poll';
+export { observeLazy, unobserveLazy } from './utils/lazy';
+export { HistorySnapshot, listenForHistory } from './utils/history';
+export { registerValidationRule, validateForm, ValidationRule, ValidationContext, FieldValue, SizeType } from './utils/validate-rules';
+export { QueuedRequest, getQueuedRequests, removeQueuedRequest, replayQueue, listenForReplay } from './utils/offline-queue';
 
 /**
  * @classdesc The main Request class for Winter AJAX Framework.
@@ -16,6 +40,7 @@ export class WinterRequestExtras extends WinterRequest {
 	private _element?: HTMLElement;
 	private _loading?: HTMLElement;
 	private _form?: HTMLFormElement;
+	private _sentData: unknown;
 
 	/**
 	 * @param element Element that is used to setup the request and fire events on.
@@ -32,22 +57,36 @@ export class WinterRequestExtras extends WinterRequest {
 
 		// data-request-* options
 		if (_element) {
-			options = merge<RequestOptions>({
+			options = mergeOptions<RequestOptions>(withoutUndefined({
 				confirm: _element.dataset.requestConfirm,
+				confirmTitle: _element.dataset.requestConfirmTitle,
+				confirmOk: _element.dataset.requestConfirmOk,
+				confirmCancel: _element.dataset.requestConfirmCancel,
+				confirmTemplate: _element.dataset.requestConfirmTemplate,
 				redirect: _element.dataset.requestRedirect,
 				loading: _element.dataset.requestLoading,
 				flash: stringToBoolean(_element.dataset.requestFlash),
+				flashContainer: _element.dataset.requestFlashContainer,
 				files: stringToBoolean(_element.dataset.requestFiles),
+				chunkSize: parseBytes(_element.dataset.requestChunkSize),
 				json: stringToBoolean(_element.dataset.requestJson),
 				form: _element.dataset.requestForm,
 				url: _element.dataset.requestUrl,
 				update: paramToObj(_element.dataset.requestUpdate),
+				updateMode: _element.dataset.requestUpdateMode as RequestOptions['updateMode'],
+				executeScripts: stringToBoolean(_element.dataset.requestExecuteScripts),
+				serializeUnchecked: stringToBoolean(_element.dataset.requestSerializeUnchecked),
 				data: paramToObj(_element.dataset.requestData),
 				browserValidate: stringToBoolean(_element.dataset.requestBrowserValidate),
-			}, options);
+				clientValidate: _element.dataset.requestClientValidate !== undefined ? stringToBoolean(_element.dataset.requestClientValidate) : undefined,
+				concurrency: _element.dataset.requestConcurrency as ConcurrencyMode,
+				offline: _element.dataset.requestOffline as RequestOptions['offline'],
+				pushState: parsePushState(_element.dataset.requestPushState),
+				poll: _element.dataset.requestPoll ? parseInt(_element.dataset.requestPoll, 10) : undefined,
+			}), options);
 		}
 
-		super(handler, merge<RequestOptions>(defaults, options));
+		super(handler, mergeOptions<RequestOptions>(defaults, options));
 
 		this._element = _element;
 
@@ -92,88 +131,134 @@ export class WinterRequestExtras extends WinterRequest {
 	}
 
 	/**
-	 * Searches DOM for `request-data` data attributes starting at the init element and works up the DOM tree. Parent elements with the same keys are overridden by child elements.
+	 * Searches DOM for `request-data` data attributes starting at the init element and works up the DOM tree. Parent elements with the same keys are overridden by child elements, merging nested objects.
 	 * 
 	 * * If `options.files` is enabled, returns a `FormData` object.
+	 * * If `options.json` is enabled, returns nested data built from the PHP-style field names, e.g. `user[address][city]`.
+	 * * Otherwise, returns `URLSearchParams`. Nested request data is sent with PHP-style field names.
 	 * 
 	 * @returns 
 	 */
 	protected getData(): FormData | URLSearchParams | Record<string, any> {
 		let inputName: string;
 
-		let requestData: Record<string, any>;
-
-		// If options.data, merge into requestData
-		if (!isEmpty(this.options.data)) {
-			Object.assign(requestData, this.options.data, getRequestDataAttrs(this.element));
-		}
+		// Merge options.data into the `request-data` data attributes of the parent elements
+		const requestData = mergeData(getRequestDataAttrs(this.element), this.options.data);
+		const fields: Array<[string, string | boolean | Array<string>]> = [];
 
 		// If this instance is not bound to a form, but to an input-like element, get the value
 		if (!this.form && isInputLike(this.element)) {
 			inputName = this.element.name;
-			if (inputName !== undefined && this.options.data[inputName] === undefined) {
-				requestData[inputName] = this.element.value;
+			if (inputName && this.options.data[inputName] === undefined && !(this.element instanceof HTMLInputElement && this.element.type === 'file')) {
+				fields.push([inputName, this.element.value]);
 			}
 		}
 
-		if (this.options.files) {
-			const formData = new FormData(this.form);
+		if (this.options.files || this.options.chunkSize) {
+			const formData = new FormData(this.form || undefined);
 
 			// Add files from the input (this instance is not bound to form).
 			if (inputName && this.element instanceof HTMLInputElement && this.element.type === 'file') {
 				for (let i = 0; i < this.element.files.length; i++) {
 					formData.append(inputName, this.element.files.item(i));
 				}
-
-				delete requestData[inputName];
 			}
 
-			// Iterate through data and append to FormData, extracting file names from File objects
-			/*for (const [key, value] of Object.entries(requestData)) {
-				if (value instanceof File && value.name) {
-					formData.append(key, value, value.name);
-					continue;
-				}
-
-				formData.append(key, value);
-			}*/ // probably unnecessary
-
 			return formData;
 		}
 
-		const init: Record<string, any> = {};
-
-		// Add non-Blobs to request data.
 		if (this.form) {
-			for (const [key, value] of new FormData(this.form)) {
-				if (value instanceof Blob) continue;
-
-				init[key] = value;
+			const formFields = getFormFields(this.form);
+
+			// Send unchecked checkboxes as `false`, or as an empty array if their name ends with `[]` and none of the
+			// checkboxes with that name are checked
+			if (this.options.json && this.options.serializeUnchecked) {
+				const names = new Set(formFields.map(([name]) => name));
+
+				for (const element of Array.from(this.form.elements)) {
+					if (element instanceof HTMLInputElement && element.type === 'checkbox' && element.name && !element.checked && !element.disabled) {
+						if (!element.name.endsWith('[]')) {
+							fields.push([element.name, false]);
+						} else if (!names.has(element.name)) {
+							fields.push([element.name.slice(0, -2), []]);
+						}
+					}
+				}
 			}
+
+			// Add non-Blobs to request data.
+			fields.push(...formFields);
 		}
 
-		// Merge from from `request-data` data attributes
-		Object.assign<Record<string, any>, Record<string, any>>(init, requestData);
+		if (this.options.json) {
+			return mergeData(serializeFields(fields), requestData);
+		}
 
-		if (!this.options.json) {
-			return new URLSearchParams(init);
+		const params = new URLSearchParams();
+		const requestFields = flattenFields(requestData);
+		const overridden = new Set(requestFields.map(([name]) => name));
+
+		// Fields in the request data replace form fields with the same name
+		for (const [name, value] of [...fields.filter(([name]) => !overridden.has(name)), ...requestFields]) {
+			params.append(name, String(value));
 		}
 
-		return init;
+		return params;
 	}
 
 	/**
 	 * Send an AJAX request to the server.
 	 *
-	 * @returns The response from the server, or void if the request was canceled by the user or another script.
-	 * @throws {ValidationFailedError} When browser-based form validation fails.
+	 * @returns The response from the server, or void if the request was canceled by the user or another script, or form validation failed.
 	 */
 	async send(data?: unknown): Promise<void | WinterResponse> {
+		return withConcurrency.call(this, () => this.dispatch(data));
+	}
+
+	/**
+	 * Send the request repeatedly until the element is removed from the page.
+	 *   * Polling pauses while the page is hidden or the browser is offline.
+	 *   * The next request is sent once the previous one completes, and the interval backs off after failed requests.
+	 *
+	 * @param interval The time between requests, in milliseconds. Defaults to the `poll` option.
+	 * @returns A function that stops polling.
+	 */
+	poll(interval = this.options.poll): () => void {
+		if (!(interval > 0)) {
+			throw new WinterRequestError('A polling interval is required');
+		}
+
+		return poll.call(this, interval);
+	}
+
+	/**
+	 * Validates the form and triggers the setup events, then sends the request.
+	 *
+	 * @param data Optional data to merge into this request.
+	 * @returns The response from the server, or void if the request was canceled by another script, or form validation failed.
+	 */
+	private async dispatch(data?: unknown): Promise<void | WinterResponse> {
+		// Remove validation messages from the previous request
+		if (this.form) {
+			clearValidationMessages(this.form);
+		}
+
 		// Validate the form client-side
-		if (this.options.browserValidate && this.form.checkValidity()) {
+		if (this.options.browserValidate && this.form && !this.form.checkValidity()) {
 			this.form.reportValidity();
 
-			throw new ValidationFailedError();
+			return;
+		}
+
+		// Validate the `data-validate-rules` fields, reporting the errors the same way as the server
+		if (this.options.clientValidate && this.form) {
+			const errors = validateForm(this.form);
+
+			if (Object.keys(errors).length) {
+				await this.options.onValidationMessage.call(this, getValidationSummary(errors), errors);
+
+				return;
+			}
 		}
 
 		if (this.element) {
@@ -184,6 +269,129 @@ export class WinterRequestExtras extends WinterRequest {
 			}
 		}
 
-		return super.send(data);
+		// Requests that redirect ask before discarding unsaved changes in other forms
+		if (this.options.redirect && !(await confirmDiscardChanges.call(this))) {
+			return;
+		}
+
+		const response = await super.send(data);
+
+		if (response) {
+			saveSentForm.call(this);
+		}
+
+		if (response && this.options.pushState && !response.data.X_WINTER_REDIRECT) {
+			pushHistoryState.call(this, this._sentData, response.data);
+		}
+
+		return response;
+	}
+
+	/**
+	 * Puts the `data-attach-loading` elements into the loading state once the request is about to be sent, and remembers
+	 * the sent form data for the change monitor.
+	 * 
+	 * @param data Optional data to merge into this request.
+	 * @returns The request to send.
+	 */
+	protected async setup(data: unknown): Promise<TransportRequest> {
+		const request = await super.setup(data);
+
+		this._sentData = request.data;
+		snapshotSentForm.call(this);
+		startLoading([this.element, this.form], this.options.loadingClass);
+		requestStarted();
+
+		return request;
+	}
+
+	/**
+	 * Restores the `data-attach-loading` elements once the request has completed.
+	 * Each request that was set up stops loading once, so that parallel requests don't end each other's loading state.
+	 */
+	protected async teardown(): Promise<void> {
+		stopLoading([this.element, this.form]);
+		requestFinished();
+	}
+
+	/**
+	 * Lets the `ajaxSetup` handler modify the request last, after the other middleware.
+	 * 
+	 * @returns The middleware, outermost first.
+	 */
+	protected getMiddleware(): Array<Middleware<this>> {
+		return [...super.getMiddleware(), async (context, next) => {
+			context.config = await this.options.ajaxHandlers.ajaxSetup.call(this, context.config) || context.config;
+			this._sentData = context.config.data;
+
+			await next();
+		}];
+	}
+
+	/**
+	 * Uploads files in chunks if the `chunkSize` option is set.
+	 * Otherwise, queues the request instead of sending it when the browser is offline, or when it fails without a response, if the `offline` option is `queue`.
+	 * 
+	 * @param request The request to send.
+	 * @returns The response.
+	 * @throws {RequestQueuedError} When the request was queued.
+	 */
+	protected async request(request: TransportRequest): Promise<WinterResponse> {
+		if (this.options.chunkSize > 0 && hasChunkableFiles(request)) {
+			return uploadChunks.call(this, request, (chunk: TransportRequest, retry: RequestOptions['retry']) => super.request(chunk, retry));
+		}
+
+		if (this.options.offline !== 'queue') {
+			return super.request(request);
+		}
+
+		if (navigator.onLine) {
+			try {
+				return await super.request(request);
+			} catch (e) {
+				if (!(e instanceof TransportError) || e.response || e.cancelled) {
+					throw e;
+				}
+			}
+		}
+
+		const queued = await enqueueRequest(this.handler, request, this.options.transport);
+		const element = this.form || this.element;
+
+		(element || window).dispatchEvent(events.ajaxQueued({ context: this, request: queued }));
+
+		throw new RequestQueuedError('The request was queued until the browser is back online');
 	}
-}
\ No newline at end of file
+}
+
+/**
+ * Parses the `data-request-push-state` attribute. An empty value or `true` pushes the request data as the query string, other values are the URL to push.
+ *
+ * @param value The attribute value.
+ * @returns The `pushState` option.
+ */
+function parsePushState(value: string): boolean | string {
+	if (value === undefined) return undefined;
+
+	if (value === '' || value === 'true' || value === 'false') {
+		return value !== 'false';
+	}
+
+	return value;
+}
+
+/**
+ * Parses the `data-request-chunk-size` attribute, e.g. `1048576`, `512KB` or `5MB`.
+ *
+ * @param value The attribute value.
+ * @returns The number of bytes.
+ */
+function parseBytes(value: string): number {
+	const match = value && value.trim().match(/^(\d+(?:\.\d+)?)\s*(B|KB|MB|GB)?$/i);
+
+	if (!match) return undefined;
+
+	const units: Record<string, number> = { B: 1, KB: 1024, MB: 1024 * 1024, GB: 1024 * 1024 * 1024 };
+
+	return Math.floor(parseFloat(match[1]) * units[(match[2] || 'B').toUpperCase()]);
+}
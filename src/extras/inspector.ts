@@ -0,0 +1,178 @@
+import { clearRequests, enableRequestRegistry, getRequests, RequestRecord, subscribeRequests } from '../request/registry';
+
+export interface InspectorOptions {
+	/**
+	 * The number of recent requests listed.
+	 */
+	limit?: number,
+
+	/**
+	 * The class of the panel element.
+	 */
+	className?: string,
+
+	/**
+	 * Add the default panel styles to the page. Disable this to style the panel yourself.
+	 */
+	styles?: boolean,
+
+	/**
+	 * Start with the list hidden, showing only the header.
+	 */
+	collapsed?: boolean,
+}
+
+const inspectorDefaults: InspectorOptions = {
+	limit: 20,
+	className: 'winter-inspector',
+	styles: true,
+	collapsed: false,
+};
+
+const inspectorStyles = (className: string) => `
+.${className} { position: fixed; right: 8px; bottom: 8px; z-index: 10001; width: 420px; max-width: calc(100vw - 16px); max-height: 50vh; overflow: auto; font: 12px/1.4 monospace; color: #eee; background: rgba(20, 20, 20, 0.95); border-radius: 4px; box-shadow: 0 2px 8px rgba(0, 0, 0, 0.4); }
+.${className} header { position: sticky; top: 0; display: flex; gap: 8px; align-items: center; padding: 4px 8px; background: #333; }
+.${className} header strong { flex: 1; }
+.${className} button { font: inherit; color: inherit; background: #555; border: 0; border-radius: 2px; cursor: pointer; }
+.${className} ol { margin: 0; padding: 0; list-style: none; }
+.${className} li { padding: 4px 8px; border-top: 1px solid #444; }
+.${className} summary { cursor: pointer; }
+.${className} dl { margin: 4px 0 0; display: grid; grid-template-columns: auto 1fr; gap: 2px 8px; }
+.${className} dd { margin: 0; word-break: break-all; white-space: pre-wrap; }
+.${className} [data-status=sent], .${className} [data-status=queued] { color: #8cf; }
+.${className} [data-status=succeeded] { color: #8e8; }
+.${className} [data-status=failed] { color: #f88; }
+.${className} [data-status=cancelled] { color: #aaa; }
+`;
+
+/**
+ * Builds the list item of a request. Values are set as text, so that they are never interpreted as HTML.
+ */
+function renderRecord(record: RequestRecord, open: boolean): HTMLLIElement {
+	const item = document.createElement('li');
+	const details = document.createElement('details');
+	const summary = document.createElement('summary');
+	const list = document.createElement('dl');
+
+	item.dataset.id = String(record.id);
+	item.dataset.status = record.status;
+	details.open = open;
+	summary.textContent = `#${record.id} ${record.handler} ${record.status}` + (record.duration !== undefined ? ` ${record.duration}ms` : '');
+
+	const rows: Array<[string, string]> = [
+		['url', record.url ? `${(record.method || '').toUpperCase()} ${record.url}` : ''],
+		['partials', record.partials.join(', ')],
+		['updated', record.updated.map((update) => `${update.partial} → ${update.selector} (${update.elements})`).join('\n')],
+		['response', record.responseStatus ? `${record.responseStatus}: ${record.responseKeys.join(', ')}` : ''],
+		['error', record.error || ''],
+		['fields', record.payloadKeys.join(', ')],
+	];
+
+	for (const [name, value] of rows) {
+		if (!value) continue;
+
+		const term = document.createElement('dt');
+		const description = document.createElement('dd');
+
+		term.textContent = name;
+		description.textContent = value;
+		list.append(term, description);
+	}
+
+	details.append(summary, list);
+	item.appendChild(details);
+
+	return item;
+}
+
+/**
+ * Displays a panel listing the recent requests, for debugging: their handler, status and duration, the partials they
+ * requested and the selectors they updated, the response keys and the names of the fields sent.
+ * Requests are recorded while the panel is displayed.
+ *
+ * @param options The panel options.
+ * @returns A function that removes the panel.
+ */
+export function enableInspector(options: InspectorOptions = {}): () => void {
+	options = Object.assign({}, inspectorDefaults, options);
+
+	const panel = document.createElement('aside');
+	panel.className = options.className;
+	panel.setAttribute('aria-label', 'Requests');
+	panel.innerHTML = '<header><strong>Requests</strong><button type="button" data-inspector-clear>Clear</button><button type="button" data-inspector-toggle></button></header><ol></ol>';
+
+	const list = panel.querySelector('ol');
+	const toggle = panel.querySelector<HTMLButtonElement>('[data-inspector-toggle]');
+	const openIds = new Set<number>();
+
+	let style: HTMLStyleElement;
+	let frame: number;
+
+	if (options.styles) {
+		style = document.createElement('style');
+		style.textContent = inspectorStyles(options.className);
+		document.head.appendChild(style);
+	}
+
+	const setCollapsed = (collapsed: boolean) => {
+		list.hidden = collapsed;
+		toggle.textContent = collapsed ? 'Show' : 'Hide';
+		toggle.setAttribute('aria-expanded', String(!collapsed));
+	};
+
+	const render = () => {
+		frame = undefined;
+
+		const items = getRequests().slice(-options.limit).reverse().map((record) => renderRecord(record, openIds.has(record.id)));
+
+		list.textContent = '';
+		list.append(...items);
+	};
+
+	// Render once per frame, as records change several times per request
+	const scheduleRender = () => {
+		if (frame === undefined) {
+			frame = window.requestAnimationFrame(render);
+		}
+	};
+
+	panel.addEventListener('click', (ev) => {
+		const target = ev.target as HTMLElement;
+
+		if (target.closest('[data-inspector-clear]')) {
+			clearRequests();
+			render();
+		} else if (target.closest('[data-inspector-toggle]')) {
+			setCollapsed(!list.hidden);
+		}
+	});
+
+	// Keep the details of a request open when the list is rendered again
+	panel.addEventListener('toggle', (ev) => {
+		const item = (ev.target as HTMLElement).closest('li');
+
+		if (!item) return;
+
+		if ((ev.target as HTMLDetailsElement).open) {
+			openIds.add(Number(item.dataset.id));
+		} else {
+			openIds.delete(Number(item.dataset.id));
+		}
+	}, true);
+
+	const disableRegistry = enableRequestRegistry();
+
+	setCollapsed(options.collapsed);
+	render();
+	document.body.appendChild(panel);
+
+	const unsubscribe = subscribeRequests(scheduleRender);
+
+	return () => {
+		unsubscribe();
+		disableRegistry();
+		window.cancelAnimationFrame(frame);
+		panel.remove();
+		if (style) style.remove();
+	};
+}
@@ -0,0 +1,102 @@
+import { getInFlightCount, onInFlightChange } from './utils/loading';
+
+export interface LoadingStripeOptions {
+	/**
+	 * The time to wait before showing the stripe, in milliseconds, so that it doesn't flicker for fast requests.
+	 */
+	delay?: number,
+
+	/**
+	 * The class of the stripe element. The `loaded` class is added when all requests have completed.
+	 */
+	className?: string,
+
+	/**
+	 * Add the default stripe styles to the page. Disable this to style the stripe yourself.
+	 */
+	styles?: boolean,
+}
+
+const stripeDefaults: LoadingStripeOptions = {
+	delay: 300,
+	className: 'stripe-loading-indicator',
+	styles: true,
+};
+
+const stripeStyles = (className: string) => `
+.${className} { position: fixed; top: 0; left: 0; z-index: 10000; width: 0; height: 3px; background: currentColor; opacity: 1; pointer-events: none; transition: width 10s cubic-bezier(0.1, 0.8, 0.1, 1); }
+.${className}.loading { width: 90%; }
+.${className}.loaded { width: 100%; opacity: 0; transition: width 0.3s, opacity 0.3s 0.3s; }
+`;
+
+/**
+ * Displays a progress stripe at the top of the page while any request is in flight, replacing `$.wn.stripeLoadIndicator`.
+ *
+ * @param options The stripe options.
+ * @returns A function that removes the stripe.
+ */
+export function enableLoadingStripe(options: LoadingStripeOptions = {}): () => void {
+	options = Object.assign({}, stripeDefaults, options);
+
+	const stripe = document.createElement('div');
+	stripe.className = options.className;
+	stripe.setAttribute('aria-hidden', 'true');
+	stripe.hidden = true;
+
+	let style: HTMLStyleElement;
+
+	if (options.styles) {
+		style = document.createElement('style');
+		style.textContent = stripeStyles(options.className);
+		document.head.appendChild(style);
+	}
+
+	document.body.appendChild(stripe);
+
+	let showTimer: number;
+	let hideTimer: number;
+
+	const update = (count: number) => {
+		if (count > 0) {
+			window.clearTimeout(hideTimer);
+
+			// Keep showing the stripe if a request starts while it is fading out
+			stripe.classList.remove('loaded');
+
+			if (stripe.hidden && showTimer === undefined) {
+				showTimer = window.setTimeout(() => {
+					showTimer = undefined;
+					stripe.classList.remove('loaded');
+					stripe.hidden = false;
+
+					// Start the transition after the stripe is rendered
+					window.requestAnimationFrame(() => stripe.classList.add('loading'));
+				}, options.delay);
+			}
+
+			return;
+		}
+
+		window.clearTimeout(showTimer);
+		showTimer = undefined;
+
+		if (!stripe.hidden) {
+			stripe.classList.add('loaded');
+			hideTimer = window.setTimeout(() => {
+				stripe.hidden = true;
+				stripe.classList.remove('loading', 'loaded');
+			}, 600);
+		}
+	};
+
+	const removeListener = onInFlightChange(update);
+	update(getInFlightCount());
+
+	return () => {
+		removeListener();
+		window.clearTimeout(showTimer);
+		window.clearTimeout(hideTimer);
+		stripe.remove();
+		if (style) style.remove();
+	};
+}
@@ -1,6 +1,15 @@
-import { AxiosRequestConfig } from 'axios';
 import { WinterRequestExtras } from '.';
-import { IWinterRequestFrameworkOptions } from '../request/types';
+import { IWinterRequestFrameworkOptions, RetryOptions } from '../request/types';
+import { TransportRequest } from '../transports';
+
+/**
+ * How a request behaves when another request for the same element and handler is still pending.
+ *   * `parallel`: Send the request regardless of pending requests.
+ *   * `abort-previous`: Cancel any pending requests, then send the request.
+ *   * `queue`: Wait for pending requests to complete, then send the request.
+ *   * `ignore-while-pending`: Do not send the request while another one is pending.
+ */
+export type ConcurrencyMode = 'parallel' | 'abort-previous' | 'queue' | 'ignore-while-pending';
 
 export interface RequestOptions extends IWinterRequestFrameworkOptions<WinterRequestExtras> {
 	/**
@@ -8,11 +17,29 @@ export interface RequestOptions extends IWinterRequestFrameworkOptions<WinterReq
 	 */
 	files?: boolean,
 
+	/**
+	 * Upload files in chunks of this many bytes, instead of in a single request. Enables the `files` option.
+	 * The `data-request-chunk-size` attribute also accepts units, e.g. `5MB`.
+	 */
+	chunkSize?: number,
+
+	/**
+	 * How to retry failed chunks. See the `retry` option. Unlike requests, chunks are also retried on server errors and
+	 * network errors by default.
+	 */
+	chunkRetry?: boolean | number | RetryOptions,
+
 	/**
 	 * A form element (or selector) to use for sourcing the form data sent with the request.
 	 */
 	form?: string | HTMLFormElement,
 
+	/**
+	 * When sending JSON, send unchecked checkboxes as `false`, or as an empty array if their name ends with `[]`.
+	 * Hidden inputs with the same name, placed before the checkbox, take precedence.
+	 */
+	serializeUnchecked?: boolean,
+
 	/**
 	  * If true, browser-based client side validation will be performed on the request before submitting.
 	  *   * This only applies to requests triggered on a `<form>` element.
@@ -20,17 +47,118 @@ export interface RequestOptions extends IWinterRequestFrameworkOptions<WinterReq
 	  */
 	browserValidate?: boolean,
 
+	/**
+	 * Validate the form fields that have a `data-validate-rules` attribute before submitting, using a subset of the Laravel rules, e.g. `required|email|max:255`.
+	 * Failures are reported through `onValidationMessage`, the same way as validation errors from the server.
+	 * Custom rules can be added with `registerValidationRule()`.
+	 */
+	clientValidate?: boolean,
+
+	/**
+	 * How partials replace the contents of their elements.
+	 *   * `replace`: The contents are replaced.
+	 *   * `morph`: The contents are patched in place, preserving focus, scroll offsets, and the state of unchanged elements.
+	 * 
+	 * Individual selectors can be morphed using the `~` prefix, e.g. `~#myDiv`.
+	 */
+	updateMode?: 'replace' | 'morph',
+
+	/**
+	 * Run the scripts contained in partials, in document order. External scripts that are already on the page are skipped.
+	 */
+	executeScripts?: boolean,
+
+	/**
+	 * The CSP nonce for scripts run from partials. Defaults to the content of the `<meta name="csp-nonce">` element.
+	 */
+	scriptNonce?: string,
+
+	/**
+	 * Ask for confirmation with the built-in `<dialog>`, instead of `window.confirm()`.
+	 */
+	confirmDialog?: boolean,
+
+	/**
+	 * The title of the confirmation dialog.
+	 */
+	confirmTitle?: string,
+
+	/**
+	 * The label of the button that confirms the request.
+	 */
+	confirmOk?: string,
+
+	/**
+	 * The label of the button that cancels the request.
+	 */
+	confirmCancel?: string,
+
+	/**
+	 * A `<template>` element (or selector) for the confirmation dialog, see `showConfirmDialog()`.
+	 */
+	confirmTemplate?: string | HTMLTemplateElement,
+
+	/**
+	 * The class added to form fields that failed validation.
+	 */
+	invalidClass?: string,
+
 	/**
 	  * An element (or selector) to be displayed when a request runs.
 	  * The element should listen to the `wn.beforeRequest` and `wn.afterRequest` custom events to manage the visibility.
 	  */
 	loading?: string | HTMLElement,
 
+	/**
+	 * The class added to the trigger element and form while the request is in flight, if they have the `data-attach-loading` attribute.
+	 */
+	loadingClass?: string,
+
 	/**
 	  * Track input on form fields.
 	  */
 	trackInput?: boolean | number,
 
+	/**
+	 * An element (or selector) to display flash messages in, using the built-in flash message renderer.
+	 * Use `createFlashMessageRenderer()` as the `onFlashMessage` option to customize the messages.
+	 */
+	flashContainer?: string | HTMLElement,
+
+	/**
+	 * The time to wait for each asset received from the server, or external script from a partial, to load, in
+	 * milliseconds. Set to `0` to wait indefinitely.
+	 */
+	assetsTimeout?: number,
+
+	/**
+	 * How to handle this request if another request for the same element and handler is still pending.
+	 */
+	concurrency?: ConcurrencyMode,
+
+	/**
+	 * What to do with the request when the browser is offline.
+	 *   * `queue`: Store the request in IndexedDB and send it once the browser is back online. The `ajaxQueued` event is triggered instead of the error callbacks.
+	 *
+	 * Requests that fail without a response from the server are also queued.
+	 */
+	offline?: 'queue' | false,
+
+	/**
+	 * Push a history entry after the request succeeds, so that the back and forward buttons restore its partials.
+	 *   * A string is the URL to push.
+	 *   * `true` pushes the current path with the request data as the query string, leaving out keys starting with `_`.
+	 *
+	 * Recent responses are reused when restoring an entry, otherwise the request is sent again.
+	 */
+	pushState?: boolean | string,
+
+	/**
+	 * The interval to send the request at when polling, in milliseconds. Used by `WinterRequestExtras#poll()`.
+	 * Elements with the `data-request-poll` attribute start polling when they are watched.
+	 */
+	poll?: number,
+
 	//handlers?: IWinterRequestFrameworkOptions<WinterRequestExtras>['handlers'] & {
 	/**
 	 * Callback function to execute when tracking keystrokes.
@@ -47,10 +175,10 @@ export interface RequestOptions extends IWinterRequestFrameworkOptions<WinterReq
 		/**
 		 * Triggered before the request is formed, allowing options to be modified.
 		 * 
-		 * @param config Axios request options.
-		 * @returns Modified axios request options.
+		 * @param config The request to send.
+		 * @returns The modified request.
 		 */
-		ajaxSetup?(config: AxiosRequestConfig): Promise<AxiosRequestConfig>,
+		ajaxSetup?(config: TransportRequest): Promise<TransportRequest>,
 
 		/**
 		 * Triggered directly before the AJAX request is sent.
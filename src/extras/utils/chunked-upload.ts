@@ -0,0 +1,160 @@
+import { TransportError } from '../../errors';
+import { RequestOptions as BaseRequestOptions } from '../../request/types';
+import { TransportRequest } from '../../transports';
+import { WinterResponse } from '../../types';
+import { WinterRequestExtras } from '../';
+import { ajaxChunkUploaded } from '../events';
+
+/**
+ * The progress of a file upload, stored so that it can be resumed after a page reload.
+ */
+interface UploadState {
+	uploadId: string,
+
+	/**
+	 * The index of the next chunk to send.
+	 */
+	next: number,
+}
+
+/**
+ * Sends a request to the server. Used to send each chunk through the request's retry loop.
+ */
+type SendChunk = (request: TransportRequest, retry: BaseRequestOptions['retry']) => Promise<WinterResponse>;
+
+/**
+ * Identifies an upload of a file, so that selecting the same file again after a page reload resumes it.
+ */
+function getStorageKey(request: TransportRequest, handler: string, file: File): string {
+	return `winter-upload:${request.url}:${handler}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function getUploadState(key: string): UploadState {
+	try {
+		const state = JSON.parse(window.localStorage.getItem(key));
+
+		if (state && typeof state.uploadId === 'string' && typeof state.next === 'number') {
+			return state;
+		}
+	} catch (e) {
+		// Storage is unavailable, or the state is invalid
+	}
+
+	return { uploadId: Date.now().toString(36) + Math.random().toString(36).substring(2), next: 0 };
+}
+
+function setUploadState(key: string, state?: UploadState): void {
+	try {
+		if (state) {
+			window.localStorage.setItem(key, JSON.stringify(state));
+		} else {
+			window.localStorage.removeItem(key);
+		}
+	} catch (e) {
+		// Uploads can't be resumed without storage
+	}
+}
+
+/**
+ * Checks if a request uploads files that should be split into chunks.
+ *
+ * @param request The request.
+ * @returns True if the request data contains a non-empty file.
+ */
+export function hasChunkableFiles(request: TransportRequest): boolean {
+	if (!(request.data instanceof FormData)) {
+		return false;
+	}
+
+	return Array.from(request.data.values()).some((value) => value instanceof File && value.size > 0);
+}
+
+/**
+ * Uploads the files of a request in chunks of the `chunkSize` option, one file after another. Each chunk is sent to the
+ * handler with the other form fields, and the `_chunk[index]`, `_chunk[total]`, `_chunk[upload_id]`, `_chunk[field]`,
+ * `_chunk[file_name]` and `_chunk[file_size]` fields.
+ *   * Failed chunks are retried according to the `chunkRetry` option.
+ *   * Partials are only requested with the last chunk, whose response is returned.
+ *   * The upload progress covers all files, and the `ajaxChunkUploaded` event is triggered after each chunk.
+ *   * Uploads that fail without a response resume from the next chunk, with the same upload ID, when the same file is sent again.
+ *     The server must keep the received chunks for this.
+ *
+ * @param request The request, with the files in its `FormData`.
+ * @param send    Sends a chunk.
+ * @returns The response to the last chunk.
+ */
+export async function uploadChunks(this: WinterRequestExtras, request: TransportRequest, send: SendChunk): Promise<WinterResponse> {
+	const chunkSize = this.options.chunkSize;
+	const files: Array<[string, File]> = [];
+	const fields: Array<[string, FormDataEntryValue]> = [];
+
+	for (const [name, value] of request.data as FormData) {
+		if (value instanceof File && value.size > 0) {
+			files.push([name, value]);
+		} else {
+			fields.push([name, value]);
+		}
+	}
+
+	const totalBytes = files.reduce((total, [, file]) => total + file.size, 0);
+	const element = this.form || this.element;
+
+	let uploadedBytes = 0;
+	let response: WinterResponse;
+
+	for (const [fileIndex, [field, file]] of files.entries()) {
+		const key = getStorageKey(request, this.handler, file);
+		const state = getUploadState(key);
+		const total = Math.ceil(file.size / chunkSize);
+
+		// Always send the last chunk, to get the response for the completed upload
+		const start = Math.min(state.next, total - 1);
+
+		uploadedBytes += start * chunkSize;
+
+		for (let index = start; index < total; index++) {
+			const chunk = file.slice(index * chunkSize, (index + 1) * chunkSize);
+			const isLast = fileIndex === files.length - 1 && index === total - 1;
+			const uploadedBefore = uploadedBytes;
+			const body = new FormData();
+
+			fields.forEach(([name, value]) => body.append(name, value));
+			body.append(field, chunk, file.name);
+			body.append('_chunk[index]', String(index));
+			body.append('_chunk[total]', String(total));
+			body.append('_chunk[upload_id]', state.uploadId);
+			body.append('_chunk[field]', field);
+			body.append('_chunk[file_name]', file.name);
+			body.append('_chunk[file_size]', String(file.size));
+
+			try {
+				response = await send(Object.assign({}, request, {
+					data: body,
+					headers: isLast ? request.headers : Object.assign({}, request.headers, { 'X-WINTER-REQUEST-PARTIALS': '' }),
+					onUploadProgress: (loaded: number) => {
+						if (request.onUploadProgress) request.onUploadProgress(uploadedBefore + Math.min(loaded, chunk.size), totalBytes);
+					},
+					onDownloadProgress: isLast ? request.onDownloadProgress : undefined,
+				}), this.options.chunkRetry);
+			} catch (e) {
+				// Start over if the server rejected the chunk, as it may not have kept the previous ones
+				if (e instanceof TransportError && e.response) {
+					setUploadState(key);
+				}
+
+				throw e;
+			}
+
+			uploadedBytes += chunk.size;
+			setUploadState(key, { uploadId: state.uploadId, next: index + 1 });
+
+			if (element) {
+				element.dispatchEvent(ajaxChunkUploaded({ context: this, file, index, total, uploadId: state.uploadId }));
+			}
+		}
+
+		setUploadState(key);
+	}
+
+	return response;
+}
@@ -0,0 +1,59 @@
+import DataStore from '../../utils/data-store';
+import { WinterRequestExtras } from '../';
+import { WinterResponse } from '../../types';
+
+interface PendingRequests {
+	requests: Set<WinterRequestExtras>,
+	queue: Promise<unknown>,
+}
+
+/**
+ * Runs a request according to its concurrency policy.
+ * Pending requests are tracked per element (or the document, if the request is not bound to an element) and per handler.
+ *
+ * @param send Sends the request.
+ * @returns The response from the server, or void if the request was not sent.
+ */
+export async function withConcurrency(this: WinterRequestExtras, send: () => Promise<void | WinterResponse>): Promise<void | WinterResponse> {
+	const mode = this.options.concurrency || 'parallel';
+
+	if (mode === 'parallel') {
+		return send();
+	}
+
+	const target = this.element || document;
+	const key = `request_pending_${this.handler}`;
+
+	if (!DataStore.has(target, key)) {
+		DataStore.put(target, key, { requests: new Set(), queue: Promise.resolve() });
+	}
+
+	const pending: PendingRequests = DataStore.get(target, key);
+
+	if (mode === 'ignore-while-pending' && pending.requests.size > 0) {
+		return;
+	}
+
+	if (mode === 'abort-previous') {
+		pending.requests.forEach((request) => request.cancel());
+	}
+
+	const run = async () => {
+		pending.requests.add(this);
+
+		try {
+			return await send();
+		} finally {
+			pending.requests.delete(this);
+		}
+	};
+
+	if (mode === 'queue') {
+		const result = pending.queue.then(run, run);
+		pending.queue = result.catch(() => undefined);
+
+		return result;
+	}
+
+	return run();
+}
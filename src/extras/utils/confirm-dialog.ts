@@ -0,0 +1,176 @@
+import { getElement } from '../../utils';
+
+export interface ConfirmDialogOptions {
+	/**
+	 * The confirmation message.
+	 */
+	message: string,
+
+	/**
+	 * The dialog title. The dialog has no title if empty.
+	 */
+	title?: string,
+
+	/**
+	 * The label of the button that confirms.
+	 */
+	ok?: string,
+
+	/**
+	 * The label of the button that cancels.
+	 */
+	cancel?: string,
+
+	/**
+	 * A `<template>` element (or selector) for the dialog. Its content is placed in the `<dialog>` element, unless it is one.
+	 * The text of the `[data-confirm-title]` and `[data-confirm-message]` elements, and the labels of the `[data-confirm-ok]` and
+	 * `[data-confirm-cancel]` buttons, are replaced.
+	 */
+	template?: string | HTMLTemplateElement,
+}
+
+let nextDialogId = 0;
+
+const defaultTemplate = `
+<form method="dialog">
+	<h2 data-confirm-title></h2>
+	<p data-confirm-message></p>
+	<div>
+		<button type="button" data-confirm-cancel></button>
+		<button type="button" data-confirm-ok></button>
+	</div>
+</form>`;
+
+/**
+ * Creates the dialog from the template.
+ */
+function createDialog(options: ConfirmDialogOptions): HTMLDialogElement {
+	const template = getElement<HTMLTemplateElement>(options.template);
+	const content = template ? template.content.cloneNode(true) as DocumentFragment : document.createRange().createContextualFragment(defaultTemplate);
+
+	let dialog = content.firstElementChild instanceof HTMLDialogElement && content.children.length === 1 ? content.firstElementChild : null;
+
+	if (!dialog) {
+		dialog = document.createElement('dialog');
+		dialog.appendChild(content);
+	} else {
+		dialog.remove();
+	}
+
+	const id = `winter-confirm-${++nextDialogId}`;
+	const title = dialog.querySelector<HTMLElement>('[data-confirm-title]');
+	const message = dialog.querySelector<HTMLElement>('[data-confirm-message]');
+
+	dialog.classList.add('winter-confirm');
+	dialog.setAttribute('role', 'alertdialog');
+	dialog.setAttribute('aria-modal', 'true');
+
+	if (title) {
+		title.id = title.id || `${id}-title`;
+		title.textContent = options.title || '';
+		title.hidden = !options.title;
+
+		if (options.title) dialog.setAttribute('aria-labelledby', title.id);
+	}
+
+	if (message) {
+		message.id = message.id || `${id}-message`;
+		message.textContent = options.message;
+		dialog.setAttribute('aria-describedby', message.id);
+	}
+
+	if (!options.title) {
+		dialog.setAttribute('aria-label', options.message);
+	}
+
+	dialog.querySelectorAll('[data-confirm-ok]').forEach((button) => button.textContent = options.ok || 'OK');
+	dialog.querySelectorAll('[data-confirm-cancel]').forEach((button) => button.textContent = options.cancel || 'Cancel');
+
+	return dialog;
+}
+
+/**
+ * Gets the elements in the dialog that can receive focus, in tab order.
+ */
+function getFocusableElements(dialog: HTMLDialogElement): Array<HTMLElement> {
+	const selector = 'a[href], button, input, select, textarea, [tabindex]:not([tabindex="-1"])';
+
+	return Array.from(dialog.querySelectorAll<HTMLElement>(selector)).filter((element) => {
+		return !(element as HTMLButtonElement).disabled && !element.hidden && element.getAttribute('tabindex') !== '-1';
+	});
+}
+
+/**
+ * Asks the user for confirmation with a modal `<dialog>`, instead of the blocking `window.confirm()`.
+ *   * Focus moves to the cancel button, is kept inside the dialog, and returns to the previously focused element when it closes.
+ *   * The escape key cancels.
+ *
+ * Falls back to `window.confirm()` if the browser does not support `<dialog>`.
+ *
+ * @param options The dialog options.
+ * @returns True if the user confirmed.
+ */
+export function showConfirmDialog(options: ConfirmDialogOptions): Promise<boolean> {
+	const dialog = createDialog(options);
+
+	if (typeof dialog.showModal !== 'function') {
+		return Promise.resolve(window.confirm(options.message));
+	}
+
+	const previousFocus = document.activeElement as HTMLElement;
+
+	return new Promise((resolve) => {
+		const close = (confirmed: boolean) => {
+			if (dialog.open) dialog.close();
+			dialog.remove();
+
+			if (previousFocus && previousFocus.isConnected && typeof previousFocus.focus === 'function') {
+				previousFocus.focus();
+			}
+
+			resolve(confirmed);
+		};
+
+		dialog.addEventListener('click', (ev) => {
+			const target = ev.target as HTMLElement;
+
+			if (target.closest('[data-confirm-ok]')) {
+				close(true);
+			} else if (target.closest('[data-confirm-cancel]')) {
+				close(false);
+			}
+		});
+
+		// Triggered by the escape key
+		dialog.addEventListener('cancel', (ev) => {
+			ev.preventDefault();
+			close(false);
+		});
+
+		dialog.addEventListener('keydown', (ev) => {
+			if (ev.key !== 'Tab') return;
+
+			const focusable = getFocusableElements(dialog);
+
+			if (!focusable.length) return;
+
+			const first = focusable[0];
+			const last = focusable[focusable.length - 1];
+
+			if (ev.shiftKey && document.activeElement === first) {
+				ev.preventDefault();
+				last.focus();
+			} else if (!ev.shiftKey && document.activeElement === last) {
+				ev.preventDefault();
+				first.focus();
+			}
+		});
+
+		document.body.appendChild(dialog);
+		dialog.showModal();
+
+		const initialFocus = dialog.querySelector<HTMLElement>('[data-confirm-cancel]') || getFocusableElements(dialog)[0];
+
+		if (initialFocus) initialFocus.focus();
+	});
+}
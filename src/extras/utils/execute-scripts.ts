@@ -0,0 +1,119 @@
+import { WinterRequestExtras } from '../';
+import { ajaxScriptError } from '../events';
+import { withTimeout } from './inject-assets';
+
+const scriptTypes = ['', 'text/javascript', 'application/javascript', 'module'];
+
+/**
+ * Finds the scripts in nodes injected into the page, in document order.
+ *
+ * @param nodes The injected nodes.
+ * @returns The script elements.
+ */
+export function findScripts(nodes: Array<Node>): Array<HTMLScriptElement> {
+	const scripts: Array<HTMLScriptElement> = [];
+
+	for (const node of nodes) {
+		if (node instanceof HTMLScriptElement) {
+			scripts.push(node);
+		} else if (node instanceof Element) {
+			scripts.push(...Array.from(node.querySelectorAll('script')));
+		}
+	}
+
+	return scripts
+		.filter((script) => script.isConnected && scriptTypes.includes((script.getAttribute('type') || '').trim().toLowerCase()))
+		.sort((a, b) => a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1);
+}
+
+/**
+ * Gets the nonce for scripts, from the `scriptNonce` option or the `<meta name="csp-nonce">` element.
+ *
+ * @param nonce The nonce from the request options.
+ * @returns The nonce, if any.
+ */
+function getNonce(nonce?: string): string {
+	if (nonce) {
+		return nonce;
+	}
+
+	const meta = document.querySelector<HTMLMetaElement>('meta[name="csp-nonce"]');
+
+	return meta ? meta.content : undefined;
+}
+
+/**
+ * Runs scripts injected into the page, one at a time in document order.
+ * Scripts injected using `innerHTML` are not run by the browser, so each one is replaced with a new script element.
+ *   * External scripts that are already on the page are skipped.
+ *   * External scripts that don't load within the `assetsTimeout` option are treated as failures.
+ *   * Failures trigger the `ajaxScriptError` event on the script, and do not halt the remaining scripts.
+ *
+ * @param scripts The injected script elements.
+ */
+export async function executeScripts(this: WinterRequestExtras, scripts: Array<HTMLScriptElement>): Promise<void> {
+	const nonce = getNonce(this.options.scriptNonce);
+
+	for (const script of scripts) {
+		if (script.src && isScriptLoaded(script, scripts)) {
+			script.remove();
+			continue;
+		}
+
+		const replacement = document.createElement('script');
+
+		for (const { name, value } of Array.from(script.attributes)) {
+			replacement.setAttribute(name, value);
+		}
+
+		replacement.text = script.text;
+
+		if (nonce) {
+			replacement.nonce = nonce;
+		}
+
+		if (replacement.src) {
+			replacement.async = false;
+
+			const loaded = new Promise<void>((resolve, reject) => {
+				replacement.addEventListener('load', () => resolve(), { once: true });
+				replacement.addEventListener('error', () => reject(new Error(`Failed to load script "${replacement.src}".`)), { once: true });
+			});
+
+			script.replaceWith(replacement);
+
+			try {
+				await withTimeout(loaded, replacement.src, this.options.assetsTimeout);
+			} catch (error) {
+				replacement.dispatchEvent(ajaxScriptError({ context: this, script: replacement, error }));
+			}
+
+			continue;
+		}
+
+		// Errors thrown by inline scripts are reported to the window synchronously
+		let error: Error;
+		const onError = (ev: ErrorEvent) => {
+			error = ev.error || new Error(ev.message);
+		};
+
+		window.addEventListener('error', onError);
+		script.replaceWith(replacement);
+		window.removeEventListener('error', onError);
+
+		if (error) {
+			replacement.dispatchEvent(ajaxScriptError({ context: this, script: replacement, error }));
+		}
+	}
+}
+
+/**
+ * Checks if another script with the same URL is already on the page.
+ *
+ * @param script  The script element.
+ * @param pending The injected scripts, which have not run yet.
+ * @returns True if the script is already loaded.
+ */
+function isScriptLoaded(script: HTMLScriptElement, pending: Array<HTMLScriptElement>): boolean {
+	return Array.from(document.querySelectorAll<HTMLScriptElement>('script[src]')).some((other) => !pending.includes(other) && other.src === script.src);
+}
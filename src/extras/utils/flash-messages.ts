@@ -0,0 +1,145 @@
+import { WinterRequestFlashMessageType } from '../../types';
+import { getElement } from '../../utils';
+
+type FlashMessageTemplate = string | ((message: string, type: string) => HTMLElement);
+
+export interface FlashMessageOptions {
+	/**
+	 * The element (or selector) that flash messages are added to.
+	 */
+	container?: string | HTMLElement,
+
+	/**
+	 * Templates for each type of flash message, or `default` for all other types.
+	 * Either a selector for a `<template>` element, or a function that creates the message element.
+	 *   * The message text is inserted into the element with the `data-flash-message-text` attribute, or the root element.
+	 *   * Elements with the `data-flash-message-close` attribute dismiss the message when clicked.
+	 */
+	templates?: Partial<Record<WinterRequestFlashMessageType | 'default', FlashMessageTemplate>>,
+
+	/**
+	 * The time before a message is dismissed, in milliseconds, either for all types or for each type. Set to `0` to keep messages until closed.
+	 */
+	timeout?: number | Partial<Record<WinterRequestFlashMessageType, number>>,
+
+	/**
+	 * Add a close button to messages created without a template.
+	 */
+	closeButton?: boolean,
+
+	/**
+	 * The maximum number of messages displayed at once. The oldest messages are dismissed first.
+	 */
+	limit?: number,
+}
+
+const flashMessageDefaults: FlashMessageOptions = {
+	templates: {},
+	timeout: { info: 5000, success: 5000, warning: 10000, error: 0 },
+	closeButton: true,
+	limit: 5,
+};
+
+/**
+ * Creates a function that displays flash messages, to be used as the `onFlashMessage` option.
+ *
+ * @param options The flash message options.
+ * @returns The `onFlashMessage` callback.
+ */
+export function createFlashMessageRenderer(options: FlashMessageOptions = {}): (message: string, type: string) => Promise<void> {
+	return async (message, type) => {
+		renderFlashMessage(message, type, options);
+	};
+}
+
+/**
+ * Displays a flash message in the container.
+ *
+ * @param message The message text.
+ * @param type    The message type, e.g.: `info`, `error`, `success`, `warning`.
+ * @param options The flash message options.
+ * @returns The message element, or undefined if the container does not exist.
+ */
+export function renderFlashMessage(message: string, type: string, options: FlashMessageOptions = {}): HTMLElement {
+	options = Object.assign({}, flashMessageDefaults, options);
+
+	const container = getElement(options.container);
+
+	if (!container) {
+		return;
+	}
+
+	if (!container.hasAttribute('aria-live')) {
+		container.setAttribute('aria-live', 'polite');
+	}
+
+	const element = createMessageElement(message, type, options);
+	const dismiss = () => element.remove();
+
+	element.querySelectorAll('[data-flash-message-close]').forEach((close) => close.addEventListener('click', dismiss));
+
+	container.appendChild(element);
+
+	// Dismiss the oldest messages when there are too many
+	const messages = container.querySelectorAll('[data-flash-message]');
+	for (let i = 0; i < messages.length - options.limit; i++) {
+		messages[i].remove();
+	}
+
+	const timeout = typeof options.timeout === 'number'
+		? options.timeout
+		: Object.assign({}, flashMessageDefaults.timeout, options.timeout)[type as WinterRequestFlashMessageType];
+
+	if (timeout) {
+		window.setTimeout(dismiss, timeout);
+	}
+
+	return element;
+}
+
+/**
+ * Creates the element for a flash message, using the template for its type if available.
+ *
+ * @param message The message text.
+ * @param type    The message type.
+ * @param options The flash message options.
+ * @returns The message element.
+ */
+function createMessageElement(message: string, type: string, options: FlashMessageOptions): HTMLElement {
+	const template = options.templates[type as WinterRequestFlashMessageType] || options.templates.default;
+	let element: HTMLElement;
+
+	if (typeof template === 'function') {
+		element = template(message, type);
+	} else if (template) {
+		element = document.querySelector<HTMLTemplateElement>(template).content.firstElementChild.cloneNode(true) as HTMLElement;
+		(element.querySelector('[data-flash-message-text]') || element).textContent = message;
+	} else {
+		element = document.createElement('div');
+		element.className = `flash-message ${type}`;
+
+		const text = document.createElement('span');
+		text.setAttribute('data-flash-message-text', '');
+		text.textContent = message;
+		element.appendChild(text);
+
+		if (options.closeButton) {
+			const close = document.createElement('button');
+			close.type = 'button';
+			close.className = 'flash-message-close';
+			close.setAttribute('data-flash-message-close', '');
+			close.setAttribute('aria-label', 'Close');
+			close.innerHTML = '&times;';
+			element.appendChild(close);
+		}
+	}
+
+	element.setAttribute('data-flash-message', type);
+
+	// Errors are announced immediately, other messages wait until the user is idle
+	if (!element.hasAttribute('role')) {
+		element.setAttribute('role', type === 'error' ? 'alert' : 'status');
+	}
+
+	return element;
+}
@@ -0,0 +1,214 @@
+import { WinterRequestExtras } from '../';
+import { WinterResponseData } from '../../types';
+import { ajaxHistoryRestore } from '../events';
+import { RequestOptions } from '../types';
+
+/**
+ * A serializable snapshot of a request, stored in the history state of the URL it pushed.
+ */
+export interface HistorySnapshot {
+	/**
+	 * Identifies the cached response of the request.
+	 */
+	id: string,
+
+	handler: string,
+	url: string,
+	data: Record<string, any>,
+	json: boolean,
+	update: Record<string, string>,
+	updateMode: RequestOptions['updateMode'],
+}
+
+interface CachedRequest {
+	/**
+	 * The options of the request, including those that can't be serialized, e.g. the transport and callbacks.
+	 */
+	options: RequestOptions,
+
+	/**
+	 * The response data, if the request succeeded.
+	 */
+	response?: WinterResponseData,
+}
+
+/**
+ * The number of requests kept for restoring history entries. Older entries are restored with the default options.
+ */
+const cacheSize = 20;
+
+const cache = new Map<string, CachedRequest>();
+
+/**
+ * Removes the `popstate` listener, if listening.
+ */
+let stopListening: () => void;
+
+/**
+ * Converts request data into a plain object that can be stored in the history state.
+ * Files are left out, and keys that occur more than once are collected into arrays.
+ *
+ * @param data The request data.
+ * @returns The serializable data.
+ */
+export function serializeRequestData(data: unknown): Record<string, any> {
+	if (data instanceof FormData || data instanceof URLSearchParams) {
+		const result: Record<string, any> = {};
+
+		for (const [key, value] of data as Iterable<[string, FormDataEntryValue]>) {
+			if (value instanceof Blob) continue;
+
+			result[key] = key in result ? [].concat(result[key], value) : value;
+		}
+
+		return result;
+	}
+
+	try {
+		return JSON.parse(JSON.stringify(data || {}));
+	} catch (e) {
+		return {};
+	}
+}
+
+/**
+ * Leaves out the keys starting with `_` (e.g. `_token`), so that they are not kept in the history state or the URL.
+ * Requests sent again to restore an entry are protected by the `X-XSRF-TOKEN` header instead.
+ *
+ * @param data The serialized request data.
+ * @returns The data without the private keys.
+ */
+function withoutPrivateKeys(data: Record<string, any>): Record<string, any> {
+	return Object.fromEntries(Object.entries(data).filter(([key]) => !key.startsWith('_')));
+}
+
+/**
+ * Gets the URL to push for a request.
+ *   * A string is resolved against the current URL.
+ *   * `true` uses the current path with the request data as the query string. Non-scalar values are left out.
+ *
+ * @param pushState The `pushState` option.
+ * @param data      The serialized request data, without the private keys.
+ * @returns The URL.
+ */
+function getPushUrl(pushState: true | string, data: Record<string, any>): string {
+	if (typeof pushState === 'string') {
+		return new URL(pushState, window.location.href).href;
+	}
+
+	const params = new URLSearchParams();
+
+	for (const [key, value] of Object.entries(data)) {
+		for (const item of [].concat(value)) {
+			if (['string', 'number', 'boolean'].includes(typeof item)) {
+				params.append(key, String(item));
+			}
+		}
+	}
+
+	const query = params.toString();
+
+	return window.location.pathname + (query ? '?' + query : '') + window.location.hash;
+}
+
+/**
+ * Pushes a history entry for a completed request, so that it can be restored with the back and forward buttons.
+ * The response is cached, so that recent entries are restored without sending the request again.
+ *
+ * @param data     The request data that was sent.
+ * @param response The response data.
+ */
+export function pushHistoryState(this: WinterRequestExtras, data: unknown, response: WinterResponseData): void {
+	listenForHistory();
+
+	// Mark the entry the page was loaded with, so that returning to it reloads the original content
+	if (!history.state || !(history.state.winterRequest || history.state.winterInitial)) {
+		history.replaceState(Object.assign({}, history.state, { winterInitial: true }), '');
+	}
+
+	const snapshot: HistorySnapshot = {
+		id: Date.now().toString(36) + Math.random().toString(36).substring(2),
+		handler: this.handler,
+		url: this.options.url,
+		data: withoutPrivateKeys(serializeRequestData(data)),
+		json: !!this.options.json,
+		update: Object.assign({}, this.options.update),
+		updateMode: this.options.updateMode,
+	};
+
+	cache.set(snapshot.id, { options: this.options, response });
+
+	if (cache.size > cacheSize) {
+		cache.delete(cache.keys().next().value);
+	}
+
+	history.pushState({ winterRequest: snapshot }, '', getPushUrl(this.options.pushState as true | string, snapshot.data));
+}
+
+/**
+ * Restores the partials of a history entry, from the cached response or by sending the request again.
+ *
+ * @param snapshot The snapshot of the request.
+ */
+export async function restoreHistoryState(snapshot: HistorySnapshot): Promise<void> {
+	const cached = cache.get(snapshot.id);
+
+	const request = new WinterRequestExtras(undefined, snapshot.handler, {
+		...(cached ? cached.options : {}),
+		url: snapshot.url,
+		data: snapshot.data,
+		json: snapshot.json,
+		update: snapshot.update,
+		updateMode: snapshot.updateMode,
+		form: undefined,
+		confirm: false,
+		pushState: false,
+	});
+
+	if (!window.dispatchEvent(ajaxHistoryRestore({ context: request, snapshot }))) {
+		return;
+	}
+
+	if (cached && cached.response) {
+		await request.options.onUpdateResponse.call(request, cached.response);
+		return;
+	}
+
+	const response = await request.send();
+
+	if (response) {
+		cache.set(snapshot.id, { options: request.options, response: response.data });
+	}
+}
+
+/**
+ * Listens for back and forward navigation between the entries pushed by requests, including those pushed before the page was reloaded.
+ * Entries that fail to restore are loaded from the server. Only one listener is added, so calling this again returns the same function.
+ *
+ * @returns A function that removes the listener.
+ */
+export function listenForHistory(): () => void {
+	if (stopListening) return stopListening;
+
+	const onPopState = (ev: PopStateEvent) => {
+		if (ev.state && ev.state.winterRequest) {
+			restoreHistoryState(ev.state.winterRequest).catch(() => window.location.reload());
+		} else if (ev.state && ev.state.winterInitial) {
+			window.location.reload();
+		}
+	};
+
+	window.addEventListener('popstate', onPopState);
+
+	const dispose = () => {
+		window.removeEventListener('popstate', onPopState);
+
+		if (stopListening === dispose) {
+			stopListening = undefined;
+		}
+	};
+
+	stopListening = dispose;
+
+	return dispose;
+}
@@ -0,0 +1,142 @@
+import { WinterRequestExtras } from '../';
+import { AssetLoadError } from '../../errors';
+import { WinterResponseAssets } from '../../types';
+import { ajaxAssetsError, ajaxAssetsLoaded } from '../events';
+
+/**
+ * Assets that are loading or have been loaded, by absolute URL.
+ */
+const loadedAssets = new Map<string, Promise<void>>();
+
+/**
+ * Injects the assets received from the server into the page.
+ *   * Stylesheets are loaded using `<link>` elements.
+ *   * Scripts are loaded using `<script>` elements, one at a time in the order they were received.
+ *   * Images are preloaded.
+ * 
+ * Assets that are already on the page are skipped. A failed asset does not stop the others from loading, including the
+ * scripts after it. Failures are reported together with the `ajaxAssetsError` event once all assets have settled, and
+ * do not halt the update.
+ */
+export async function injectAssets(this: WinterRequestExtras, assets: WinterResponseAssets): Promise<void> {
+	const target: EventTarget = this.form || this.element || window;
+	const timeout = this.options.assetsTimeout;
+	const errors: Array<AssetLoadError> = [];
+
+	const load = (url: string, loader: (url: string) => Promise<void>) => loadAsset(url, timeout, loader).catch((error) => {
+		errors.push(error);
+	});
+
+	await Promise.all([
+		...(assets.css || []).map((url) => load(url, loadStylesheet)),
+		...(assets.img || []).map((url) => load(url, loadImage)),
+		(async () => {
+			for (const url of assets.js || []) {
+				await load(url, loadScript);
+			}
+		})(),
+	]);
+
+	if (errors.length) {
+		target.dispatchEvent(ajaxAssetsError({ context: this, assets, error: errors[0], errors }));
+		return;
+	}
+
+	target.dispatchEvent(ajaxAssetsLoaded({ context: this, assets }));
+}
+
+/**
+ * Loads an asset unless it is already on the page or loading.
+ * 
+ * @param url     The asset URL.
+ * @param timeout The time to wait for the asset to load, in milliseconds.
+ * @param loader  Loads the asset.
+ * @returns Resolves when the asset has loaded.
+ */
+function loadAsset(url: string, timeout: number, loader: (url: string) => Promise<void>): Promise<void> {
+	const href = new URL(url, document.baseURI).href;
+
+	if (!loadedAssets.has(href)) {
+		if (isOnPage(href)) {
+			loadedAssets.set(href, Promise.resolve());
+		} else {
+			const promise = withTimeout(loader(href), href, timeout);
+
+			// Allow failed assets to be loaded again by a later request
+			promise.catch(() => loadedAssets.delete(href));
+
+			loadedAssets.set(href, promise);
+		}
+	}
+
+	return loadedAssets.get(href);
+}
+
+/**
+ * Checks if a stylesheet or script with the URL is already on the page.
+ * 
+ * @param href The absolute asset URL.
+ * @returns True if the asset is on the page.
+ */
+function isOnPage(href: string): boolean {
+	const links = Array.from(document.querySelectorAll<HTMLLinkElement>('link[rel=stylesheet][href]'));
+	const scripts = Array.from(document.querySelectorAll<HTMLScriptElement>('script[src]'));
+
+	return links.some((link) => link.href === href) || scripts.some((script) => script.src === href);
+}
+
+function loadStylesheet(href: string): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const link = document.createElement('link');
+
+		link.rel = 'stylesheet';
+		link.href = href;
+		link.addEventListener('load', () => resolve(), { once: true });
+		link.addEventListener('error', () => reject(new AssetLoadError(`Failed to load stylesheet "${href}".`, href)), { once: true });
+
+		document.head.appendChild(link);
+	});
+}
+
+function loadScript(href: string): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const script = document.createElement('script');
+
+		script.src = href;
+		script.async = false;
+		script.addEventListener('load', () => resolve(), { once: true });
+		script.addEventListener('error', () => reject(new AssetLoadError(`Failed to load script "${href}".`, href)), { once: true });
+
+		document.body.appendChild(script);
+	});
+}
+
+function loadImage(href: string): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const image = new Image();
+
+		image.addEventListener('load', () => resolve(), { once: true });
+		image.addEventListener('error', () => reject(new AssetLoadError(`Failed to load image "${href}".`, href)), { once: true });
+		image.src = href;
+	});
+}
+
+/**
+ * Rejects if the promise does not settle in time.
+ * 
+ * @param promise The promise.
+ * @param href    The asset URL, used in the error.
+ * @param timeout The timeout in milliseconds, or 0 to wait indefinitely.
+ * @returns The promise, limited by the timeout.
+ */
+export function withTimeout(promise: Promise<void>, href: string, timeout: number): Promise<void> {
+	if (!timeout) {
+		return promise;
+	}
+
+	return new Promise((resolve, reject) => {
+		const timer = window.setTimeout(() => reject(new AssetLoadError(`Timed out loading "${href}".`, href)), timeout);
+
+		promise.then(resolve, reject).finally(() => window.clearTimeout(timer));
+	});
+}
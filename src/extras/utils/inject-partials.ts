@@ -1,39 +1,104 @@
+import { WinterRequestExtras } from '../';
+import { recordUpdate } from '../../request/registry';
 import { WinterResponseData } from '../../types';
 import { ajaxUpdate, ajaxBeforeReplace, ajaxUpdateComplete } from '../events';
+import { executeScripts, findScripts } from './execute-scripts';
+import { getPlacement, parseSelector, PartialPlacement } from './placements';
 
 /**
- * If a partial has been supplied on the client side that matches the server supplied key, look up
- * it's selector and use that. If not, we assume it is an explicit selector reference.
+ * Gets the partials from the response data.
+ * Partials are returned in `X_WINTER_REQUEST_PARTIALS`, or as top-level keys alongside the handler result.
+ * 
+ * @param data The response data.
+ * @returns The partial contents, keyed by partial name or selector.
  */
-export async function injectPartials(partials: { [name: string]: string }, data: WinterResponseData): Promise<void> {
-	for (const partial in data) {
-		let selector = partials[partial] ? partials[partial] : partial;
-		let position: InsertPosition;
-
-		if (selector[0] === '^') {
-			// Prepend
-			selector = selector.substring(1);
-			position = 'afterbegin';
-		} else if (selector[0] === '@') {
-			// Append
-			selector = selector.substring(1);
-			position = 'beforeend', data[partial];
+export function getResponsePartials(data: WinterResponseData): Record<string, string> {
+	if (data.X_WINTER_REQUEST_PARTIALS) {
+		return data.X_WINTER_REQUEST_PARTIALS;
+	}
+
+	const partials: Record<string, string> = {};
+
+	for (const [key, value] of Object.entries(data)) {
+		if (key === 'result' || key.startsWith('X_WINTER_') || typeof value !== 'string') continue;
+
+		partials[key] = value;
+	}
+
+	return partials;
+}
+
+/**
+ * Queries the DOM for the target elements of a partial. The `this` selector targets the element that triggered the request.
+ * 
+ * @param selector The selector.
+ * @param all      Query all matching elements, instead of the first one.
+ * @returns The target elements. Invalid selectors match no elements.
+ */
+function getTargetElements(this: WinterRequestExtras, selector: string, all: boolean): Array<HTMLElement> {
+	if (selector === 'this') {
+		return this.element ? [this.element] : [];
+	}
+
+	try {
+		if (all) {
+			return Array.from(document.querySelectorAll<HTMLElement>(selector));
 		}
 
 		const element = document.querySelector<HTMLElement>(selector);
 
-		if (element) {
-			element.dispatchEvent(ajaxUpdate({ context: this, data }));
+		return element ? [element] : [];
+	} catch (e) {
+		return [];
+	}
+}
 
-			if (position) {
-				element.insertAdjacentHTML(position, data[partial]);
-			} else {
-				element.dispatchEvent(ajaxBeforeReplace());
-				element.innerHTML = data[partial];
+/**
+ * If a partial has been supplied on the client side that matches the server supplied key, look up
+ * it's selector and use that. If not, we assume it is an explicit selector reference.
+ * 
+ * The selector prefix determines where the partial is placed, see `registerPlacement()`.
+ */
+export async function injectPartials(this: WinterRequestExtras, partials: { [name: string]: string }, data: WinterResponseData): Promise<void> {
+	const placements: Array<PartialPlacement> = [];
+	const injected: Array<Node> = [];
+
+	for (const [partial, html] of Object.entries(getResponsePartials(data))) {
+		const { prefix, all, selector } = parseSelector(partials[partial] ? partials[partial] : partial);
+		const placement = getPlacement(prefix === '' && this.options.updateMode === 'morph' ? '~' : prefix);
+		const detail: PartialPlacement = { partial, selector, mode: placement.mode, all };
+
+		const elements = getTargetElements.call(this, selector, all);
+
+		for (const element of elements) {
+			if (placement.replaces) {
+				element.dispatchEvent(ajaxBeforeReplace({ context: this, placement: detail }));
 			}
+
+			const template = document.createElement('template');
+			template.innerHTML = html;
+
+			const nodes = Array.from(template.content.childNodes);
+
+			placement.place(element, template.content, this);
+			injected.push(...nodes);
+
+			// Trigger on the element if its content was replaced. Otherwise, trigger on the inserted elements, as content
+			// placed before or after the element is outside of it, falling back to the element if only text was inserted.
+			const inserted = nodes.filter((node) => node instanceof HTMLElement && node.isConnected);
+			const updated = placement.replaces ? (element.isConnected ? [element] : inserted) : (inserted.length ? inserted : [element]);
+
+			updated.forEach((node) => node.dispatchEvent(ajaxUpdate({ context: this, data, placement: detail })));
 		}
+
+		placements.push(detail);
+		recordUpdate(this, { partial, selector, elements: elements.length });
+	}
+
+	if (this.options.executeScripts) {
+		await executeScripts.call(this, findScripts(injected));
 	}
 
-	window.dispatchEvent(ajaxUpdateComplete({ context: this, data }));
+	window.dispatchEvent(ajaxUpdateComplete({ context: this, data, placements }));
 	//window.dispatchEvent(new Event('resize'));
-}
\ No newline at end of file
+}
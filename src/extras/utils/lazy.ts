@@ -0,0 +1,61 @@
+import DataStore from '../../utils/data-store';
+import { WinterRequestExtras } from '../';
+import { RequestOptions } from '../types';
+import { sendInBackground } from './send-in-background';
+
+const observers = new Map<string, IntersectionObserver>();
+
+/**
+ * Gets the shared observer for a root margin, creating it if needed.
+ *
+ * @param rootMargin The root margin, e.g. `200px`.
+ * @returns The observer.
+ */
+function getObserver(rootMargin: string): IntersectionObserver {
+	if (!observers.has(rootMargin)) {
+		observers.set(rootMargin, new IntersectionObserver((entries, observer) => {
+			entries.forEach((entry) => {
+				if (!entry.isIntersecting || !DataStore.has(entry.target, 'lazy_request')) return;
+
+				const request: WinterRequestExtras = DataStore.get(entry.target, 'lazy_request');
+
+				observer.unobserve(entry.target);
+				DataStore.remove(entry.target, 'lazy_request');
+
+				sendInBackground(request);
+			});
+		}, { rootMargin }));
+	}
+
+	return observers.get(rootMargin);
+}
+
+/**
+ * Sends the request of an element once it scrolls into view. The request is only sent once.
+ * Use the `this` selector in the `update` option to replace the placeholder element with the partial, e.g. `=this`.
+ *
+ * @param element        The placeholder element.
+ * @param rootMargin     Grows the viewport by this margin, so that the request is sent before the element becomes visible, e.g. `200px`.
+ * @param requestOptions Options for the request. Data attributes take precedence.
+ * @returns A function that stops observing the element, if the request has not been sent yet.
+ */
+export function observeLazy(element: HTMLElement, rootMargin = '0px', requestOptions?: RequestOptions): () => void {
+	const observer = getObserver(rootMargin);
+
+	DataStore.put(element, 'lazy_request', new WinterRequestExtras(element, undefined, requestOptions));
+	observer.observe(element);
+
+	return () => unobserveLazy(element);
+}
+
+/**
+ * Stops observing an element, if its request has not been sent yet.
+ *
+ * @param element The placeholder element.
+ */
+export function unobserveLazy(element: HTMLElement): void {
+	if (DataStore.has(element, 'lazy_request')) {
+		observers.forEach((observer) => observer.unobserve(element));
+		DataStore.remove(element, 'lazy_request');
+	}
+}
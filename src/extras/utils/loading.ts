@@ -0,0 +1,106 @@
+import DataStore from '../../utils/data-store';
+
+type InFlightListener = (count: number) => void;
+
+let inFlight = 0;
+const listeners = new Set<InFlightListener>();
+
+/**
+ * Gets the number of requests in flight.
+ *
+ * @returns The number of requests.
+ */
+export function getInFlightCount(): number {
+	return inFlight;
+}
+
+/**
+ * Listens for changes to the number of requests in flight.
+ *
+ * @param listener Called with the number of requests in flight.
+ * @returns A function that removes the listener.
+ */
+export function onInFlightChange(listener: InFlightListener): () => void {
+	listeners.add(listener);
+
+	return () => listeners.delete(listener);
+}
+
+/**
+ * Records that a request was sent.
+ */
+export function requestStarted(): void {
+	inFlight++;
+	listeners.forEach((listener) => listener(inFlight));
+}
+
+/**
+ * Records that a request completed.
+ */
+export function requestFinished(): void {
+	inFlight = Math.max(0, inFlight - 1);
+	listeners.forEach((listener) => listener(inFlight));
+}
+
+/**
+ * Puts elements with the `data-attach-loading` attribute into the loading state:
+ *   * The loading class is added.
+ *   * The `aria-busy` attribute is set.
+ *   * The element is disabled if it is a button, or its submit buttons are disabled if it is a form.
+ *
+ * Elements remain loading until every request that started loading them has finished.
+ *
+ * @param elements     The trigger element and form.
+ * @param loadingClass The class added to loading elements.
+ */
+export function startLoading(elements: Array<HTMLElement>, loadingClass: string): void {
+	for (const element of new Set(elements)) {
+		if (!element || !element.hasAttribute('data-attach-loading')) continue;
+
+		const count: number = DataStore.has(element, 'loading_count') ? DataStore.get(element, 'loading_count') : 0;
+		DataStore.put(element, 'loading_count', count + 1);
+
+		if (count > 0) continue;
+
+		if (loadingClass) element.classList.add(loadingClass);
+		element.setAttribute('aria-busy', 'true');
+
+		const buttons = element instanceof HTMLFormElement
+			? Array.from(element.querySelectorAll<HTMLButtonElement | HTMLInputElement>('button[type=submit], button:not([type]), input[type=submit]'))
+			: [element];
+
+		const disabled = buttons.filter((button) => (button instanceof HTMLButtonElement || button instanceof HTMLInputElement) && !button.disabled) as Array<HTMLButtonElement | HTMLInputElement>;
+
+		disabled.forEach((button) => button.disabled = true);
+
+		DataStore.put(element, 'loading_disabled', disabled);
+		DataStore.put(element, 'loading_class', loadingClass);
+	}
+}
+
+/**
+ * Restores elements put into the loading state by `startLoading()`.
+ *
+ * @param elements The trigger element and form.
+ */
+export function stopLoading(elements: Array<HTMLElement>): void {
+	for (const element of new Set(elements)) {
+		if (!element || !DataStore.has(element, 'loading_count')) continue;
+
+		const count: number = DataStore.get(element, 'loading_count') - 1;
+
+		if (count > 0) {
+			DataStore.put(element, 'loading_count', count);
+			continue;
+		}
+
+		const loadingClass: string = DataStore.get(element, 'loading_class');
+		const disabled: Array<HTMLButtonElement | HTMLInputElement> = DataStore.get(element, 'loading_disabled');
+
+		if (loadingClass) element.classList.remove(loadingClass);
+		element.removeAttribute('aria-busy');
+		disabled.forEach((button) => button.disabled = false);
+
+		['loading_count', 'loading_class', 'loading_disabled'].forEach((key) => DataStore.remove(element, key));
+	}
+}
@@ -0,0 +1,146 @@
+/**
+ * Updates the contents of an element to match the HTML, patching the existing DOM in place instead of replacing it.
+ *
+ * Elements are matched by their `id` or `data-key` attribute, or otherwise by their position and tag name.
+ * Matched elements are kept, so focus, caret position, scroll offsets, open `<details>`, and any JavaScript state are preserved.
+ * The value of the focused form field is not changed.
+ *
+ * @param element The element to update.
+ * @param content The new contents of the element.
+ */
+export function morph(element: Element, content: string | DocumentFragment): void {
+	if (typeof content === 'string') {
+		const template = document.createElement('template');
+		template.innerHTML = content;
+		content = template.content;
+	}
+
+	morphChildren(element, content);
+}
+
+/**
+ * Gets the key used to match an element, if any.
+ *
+ * @param node The node.
+ * @returns The key, or null.
+ */
+function getKey(node: Node): string {
+	if (!(node instanceof Element)) {
+		return null;
+	}
+
+	if (node.hasAttribute('data-key')) {
+		return `key:${node.getAttribute('data-key')}`;
+	}
+
+	return node.id ? `id:${node.id}` : null;
+}
+
+/**
+ * Checks if an unkeyed node can be patched to match another node.
+ *
+ * @param from The existing node.
+ * @param to   The new node.
+ * @returns True if the nodes are of the same type.
+ */
+function isSameType(from: Node, to: Node): boolean {
+	if (from.nodeType !== to.nodeType) {
+		return false;
+	}
+
+	return !(from instanceof Element) || (from.tagName === (to as Element).tagName && !getKey(from) && !getKey(to));
+}
+
+function morphChildren(from: Node, to: Node): void {
+	const keyed = new Map<string, Node>();
+
+	from.childNodes.forEach((child) => {
+		const key = getKey(child);
+		if (key) keyed.set(key, child);
+	});
+
+	let current = from.firstChild;
+
+	for (const child of Array.from(to.childNodes)) {
+		const key = getKey(child);
+		let match: Node = null;
+
+		if (key && keyed.has(key) && (keyed.get(key) as Element).tagName === (child as Element).tagName) {
+			match = keyed.get(key);
+			keyed.delete(key);
+		} else if (current && isSameType(current, child)) {
+			match = current;
+		}
+
+		if (!match) {
+			from.insertBefore(child, current);
+			continue;
+		}
+
+		if (match === current) {
+			current = current.nextSibling;
+		} else {
+			from.insertBefore(match, current);
+		}
+
+		morphNode(match, child);
+	}
+
+	// Remove nodes that don't exist in the new contents
+	while (current) {
+		const next = current.nextSibling;
+		from.removeChild(current);
+		current = next;
+	}
+}
+
+function morphNode(from: Node, to: Node): void {
+	if (!(from instanceof Element) || !(to instanceof Element)) {
+		if (from.nodeValue !== to.nodeValue) {
+			from.nodeValue = to.nodeValue;
+		}
+		return;
+	}
+
+	morphAttributes(from, to);
+
+	const isFocused = from === document.activeElement;
+
+	if (from instanceof HTMLInputElement && to instanceof HTMLInputElement) {
+		if (!isFocused) {
+			from.value = to.value;
+			from.checked = to.checked;
+		}
+		return;
+	}
+
+	if (from instanceof HTMLTextAreaElement && to instanceof HTMLTextAreaElement) {
+		if (!isFocused) {
+			from.value = to.value;
+		}
+		return;
+	}
+
+	morphChildren(from, to);
+
+	if (from instanceof HTMLSelectElement && to instanceof HTMLSelectElement && !isFocused) {
+		from.value = to.value;
+	}
+}
+
+function morphAttributes(from: Element, to: Element): void {
+	// The open state of <details> belongs to the user
+	const preserved = from instanceof HTMLDetailsElement ? ['open'] : [];
+
+	for (const { name } of Array.from(from.attributes)) {
+		if (!to.hasAttribute(name) && !preserved.includes(name)) {
+			from.removeAttribute(name);
+		}
+	}
+
+	for (const { name, value } of Array.from(to.attributes)) {
+		if (from.getAttribute(name) !== value && !preserved.includes(name)) {
+			from.setAttribute(name, value);
+		}
+	}
+}
@@ -0,0 +1,239 @@
+import { TransportError } from '../../errors';
+import { Transport, TransportRequest } from '../../transports';
+import baseDefaults from '../../request/defaults';
+import { ajaxReplayDone, ajaxReplayFail } from '../events';
+
+/**
+ * A request stored in the offline queue.
+ */
+export interface QueuedRequest {
+	/**
+	 * The key of the request in the queue, assigned when it is stored.
+	 */
+	id?: number,
+
+	handler: string,
+	url: string,
+	method: string,
+	headers: Record<string, string>,
+
+	/**
+	 * The serialized request body.
+	 */
+	body: {
+		type: 'form' | 'params' | 'json' | 'text',
+		value: Array<[string, FormDataEntryValue]> | Record<string, any> | string,
+	},
+
+	/**
+	 * The time the request was queued, in milliseconds since the epoch.
+	 */
+	queuedAt: number,
+}
+
+const databaseName = 'winter-request';
+const storeName = 'queue';
+
+let replayTransport: Transport;
+let replaying: Promise<void>;
+
+/**
+ * Removes the `online` listener, if listening.
+ */
+let stopListening: () => void;
+
+/**
+ * Opens the database that stores the queue, creating it if needed.
+ *
+ * @returns The database.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+	return new Promise((resolve, reject) => {
+		const open = indexedDB.open(databaseName, 1);
+
+		open.onupgradeneeded = () => open.result.createObjectStore(storeName, { keyPath: 'id', autoIncrement: true });
+		open.onsuccess = () => resolve(open.result);
+		open.onerror = () => reject(open.error);
+	});
+}
+
+/**
+ * Runs an operation on the queue store.
+ *
+ * @param mode      The transaction mode.
+ * @param operation Creates the request to run.
+ * @returns The result of the request.
+ */
+async function withStore<R>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+	const database = await openDatabase();
+
+	try {
+		return await new Promise<R>((resolve, reject) => {
+			const request = operation(database.transaction(storeName, mode).objectStore(storeName));
+
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+	} finally {
+		database.close();
+	}
+}
+
+/**
+ * Converts a request body into a value that can be stored in IndexedDB. Files in `FormData` are kept.
+ *
+ * @param data The request body.
+ * @returns The serialized body.
+ */
+function serializeBody(data: TransportRequest['data']): QueuedRequest['body'] {
+	if (data instanceof FormData) {
+		return { type: 'form', value: Array.from(data as unknown as Iterable<[string, FormDataEntryValue]>) };
+	}
+
+	if (data instanceof URLSearchParams) {
+		return { type: 'params', value: Array.from(data as unknown as Iterable<[string, string]>) };
+	}
+
+	if (typeof data === 'string') {
+		return { type: 'text', value: data };
+	}
+
+	return { type: 'json', value: JSON.parse(JSON.stringify(data || {})) };
+}
+
+/**
+ * Restores a request body stored by `serializeBody()`.
+ *
+ * @param body The serialized body.
+ * @returns The request body.
+ */
+function deserializeBody(body: QueuedRequest['body']): TransportRequest['data'] {
+	if (body.type === 'form') {
+		const formData = new FormData();
+		(body.value as Array<[string, FormDataEntryValue]>).forEach(([key, value]) => formData.append(key, value));
+
+		return formData;
+	}
+
+	if (body.type === 'params') {
+		return new URLSearchParams(body.value as Array<[string, string]>);
+	}
+
+	return body.value;
+}
+
+/**
+ * Stores a request in the offline queue, and replays the queue when the browser is back online.
+ *
+ * @param handler   The AJAX handler.
+ * @param request   The request to queue.
+ * @param transport The transport to replay the queue with.
+ * @returns The queued request.
+ */
+export async function enqueueRequest(handler: string, request: TransportRequest, transport?: Transport): Promise<QueuedRequest> {
+	const queued: QueuedRequest = {
+		handler,
+		url: request.url,
+		method: request.method,
+		headers: Object.assign({}, request.headers),
+		body: serializeBody(request.data),
+		queuedAt: Date.now(),
+	};
+
+	queued.id = await withStore('readwrite', (store) => store.add(queued)) as number;
+
+	listenForReplay(transport);
+
+	return queued;
+}
+
+/**
+ * Gets the requests in the offline queue, in the order they were queued.
+ *
+ * @returns The queued requests.
+ */
+export function getQueuedRequests(): Promise<Array<QueuedRequest>> {
+	return withStore('readonly', (store) => store.getAll());
+}
+
+/**
+ * Removes a request from the offline queue.
+ *
+ * @param id The key of the request.
+ */
+export async function removeQueuedRequest(id: number): Promise<void> {
+	await withStore('readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Sends the queued requests in the order they were queued. The `ajaxReplayDone` or `ajaxReplayFail` event is triggered on the window for each request.
+ *   * Requests the server responded to are removed from the queue, whether they succeeded or not.
+ *   * Replaying stops at the first request that fails without a response, e.g. because the browser went offline again. It remains queued.
+ *
+ * Only one replay runs at a time; calling this during a replay returns the running replay.
+ *
+ * @param transport The transport to send the requests with. Defaults to the transport given when the requests were queued.
+ */
+export function replayQueue(transport?: Transport): Promise<void> {
+	if (!replaying) {
+		replaying = replay(transport || replayTransport || baseDefaults.transport).finally(() => replaying = undefined);
+	}
+
+	return replaying;
+}
+
+async function replay(transport: Transport): Promise<void> {
+	for (const queued of await getQueuedRequests()) {
+		try {
+			const response = await transport.send({
+				url: queued.url,
+				method: queued.method,
+				headers: queued.headers,
+				data: deserializeBody(queued.body),
+			});
+
+			await removeQueuedRequest(queued.id);
+			window.dispatchEvent(ajaxReplayDone({ request: queued, response }));
+		} catch (e) {
+			if (!(e instanceof TransportError) || !e.response) {
+				return;
+			}
+
+			await removeQueuedRequest(queued.id);
+			window.dispatchEvent(ajaxReplayFail({ request: queued, error: e }));
+		}
+	}
+}
+
+/**
+ * Replays the offline queue whenever the browser comes back online. Only one listener is added, so calling this again
+ * returns the same function.
+ *
+ * @param transport The transport to replay the queue with.
+ * @returns A function that removes the listener.
+ */
+export function listenForReplay(transport?: Transport): () => void {
+	if (transport) {
+		replayTransport = transport;
+	}
+
+	if (stopListening) return stopListening;
+
+	const onOnline = () => {
+		replayQueue().catch(() => { /* The queue is replayed when the browser is next online */ });
+	};
+
+	window.addEventListener('online', onOnline);
+
+	const dispose = () => {
+		window.removeEventListener('online', onOnline);
+
+		if (stopListening === dispose) {
+			stopListening = undefined;
+		}
+	};
+
+	stopListening = dispose;
+
+	return dispose;
+}
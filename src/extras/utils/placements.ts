@@ -0,0 +1,147 @@
+import { WinterRequestExtras } from '../';
+import { morph } from './morph';
+
+/**
+ * Places the content of a partial on the page, relative to a target element.
+ */
+export interface Placement {
+	/**
+	 * The name of the placement, reported in the `ajaxUpdate` event.
+	 */
+	mode: string,
+
+	/**
+	 * True if the placement destroys existing content. The `ajaxBeforeReplace` event is triggered on the target element first.
+	 */
+	replaces: boolean,
+
+	/**
+	 * Places the content.
+	 *
+	 * @param element The target element.
+	 * @param content The parsed partial contents.
+	 * @param context The request instance.
+	 */
+	place(element: HTMLElement, content: DocumentFragment, context: WinterRequestExtras): void,
+}
+
+/**
+ * Describes where a partial was placed on the page.
+ */
+export interface PartialPlacement {
+	/**
+	 * The partial name, or the selector if the response did not use a partial name.
+	 */
+	partial: string,
+
+	/**
+	 * The selector of the target elements, without the prefix.
+	 */
+	selector: string,
+
+	/**
+	 * The name of the placement, e.g. `replace` or `append`.
+	 */
+	mode: string,
+
+	/**
+	 * True if all elements matching the selector are updated.
+	 */
+	all: boolean,
+}
+
+const placements = new Map<string, Placement>();
+
+/**
+ * Registers a selector prefix that places partials on the page, e.g. `registerPlacement('%', { ... })` for `%#myDiv`.
+ * Registering an existing prefix replaces its placement.
+ *
+ * @param prefix    The selector prefix.
+ * @param placement The placement.
+ */
+export function registerPlacement(prefix: string, placement: Placement): void {
+	placements.set(prefix, placement);
+}
+
+/**
+ * Gets the placement for a selector prefix.
+ *
+ * @param prefix The selector prefix, or an empty string for the default placement.
+ * @returns The placement, or undefined if the prefix is not registered.
+ */
+export function getPlacement(prefix: string): Placement {
+	return placements.get(prefix);
+}
+
+/**
+ * Splits a selector into its prefixes and the selector itself.
+ *
+ * @param selector The selector, e.g. `*@.list`.
+ * @returns The placement prefix, whether all matching elements are updated, and the selector.
+ */
+export function parseSelector(selector: string): { prefix: string, all: boolean, selector: string } {
+	let all = false;
+
+	if (selector[0] === '*' && selector.length > 1) {
+		all = true;
+		selector = selector.substring(1);
+	}
+
+	// Prefer the longest registered prefix
+	const prefix = Array.from(placements.keys())
+		.filter((key) => key && selector.startsWith(key))
+		.sort((a, b) => b.length - a.length)[0] || '';
+
+	return { prefix, all, selector: selector.substring(prefix.length).trim() };
+}
+
+registerPlacement('', {
+	mode: 'replace',
+	replaces: true,
+	place: (element, content) => {
+		element.textContent = '';
+		element.appendChild(content);
+	},
+});
+
+registerPlacement('~', {
+	mode: 'morph',
+	replaces: true,
+	place: (element, content) => morph(element, content),
+});
+
+registerPlacement('^', {
+	mode: 'prepend',
+	replaces: false,
+	place: (element, content) => element.insertBefore(content, element.firstChild),
+});
+
+registerPlacement('@', {
+	mode: 'append',
+	replaces: false,
+	place: (element, content) => element.appendChild(content),
+});
+
+registerPlacement('=', {
+	mode: 'outer',
+	replaces: true,
+	place: (element, content) => element.parentNode.replaceChild(content, element),
+});
+
+registerPlacement('<', {
+	mode: 'before',
+	replaces: false,
+	place: (element, content) => element.parentNode.insertBefore(content, element),
+});
+
+registerPlacement('>', {
+	mode: 'after',
+	replaces: false,
+	place: (element, content) => element.parentNode.insertBefore(content, element.nextSibling),
+});
+
+registerPlacement('-', {
+	mode: 'remove',
+	replaces: true,
+	place: (element) => element.remove(),
+});
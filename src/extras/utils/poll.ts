@@ -0,0 +1,132 @@
+import DataStore from '../../utils/data-store';
+import { WinterRequestExtras } from '../';
+import defaults from '../defaults';
+import { ajaxErrorMessage } from '../events';
+
+/**
+ * The maximum factor the interval is multiplied by after consecutive failures.
+ */
+const maxBackoff = 16;
+
+/**
+ * Sends the request repeatedly, waiting for the interval after each response.
+ *   * Polling pauses while the page is hidden or the browser is offline, and resumes when it becomes visible and online.
+ *   * Requests never overlap, as the next one is scheduled after the previous one completes.
+ *   * The interval doubles after each failed request, up to 16 times the interval, and resets after a successful one.
+ *     Requests that are not sent, e.g. because the confirmation was cancelled, are not failures.
+ *   * The default `onErrorMessage` handler does not show an alert for failed requests, only triggering the `ajaxErrorMessage` event.
+ *   * Polling stops when the element is removed from the page.
+ *
+ * Polling an element that is already polling stops the previous poll.
+ *
+ * @param interval The time between requests, in milliseconds.
+ * @returns A function that stops polling.
+ */
+export function poll(this: WinterRequestExtras, interval: number): () => void {
+	const target = this.element || document;
+
+	if (DataStore.has(target, 'poll_stop')) {
+		DataStore.get(target, 'poll_stop')();
+	}
+
+	let stopped = false,
+		failures = 0,
+		failed = false,
+		timer: number;
+
+	const options = this.options;
+
+	// Detect failed requests, as they resolve without a response like requests that are not sent
+	const pollOptions = Object.assign({}, options, {
+		onError: async function (error: Error) {
+			failed = true;
+			await options.onError.call(this, error);
+		},
+		onErrorMessage: options.onErrorMessage !== defaults.onErrorMessage ? options.onErrorMessage : async function (message: string) {
+			window.dispatchEvent(ajaxErrorMessage({ context: this, message }));
+		},
+	});
+
+	this.options = pollOptions;
+
+	const canSend = () => !document.hidden && navigator.onLine;
+
+	const onResume = () => {
+		if (canSend()) {
+			removeResumeListeners();
+			tick();
+		}
+	};
+
+	const removeResumeListeners = () => {
+		document.removeEventListener('visibilitychange', onResume);
+		window.removeEventListener('online', onResume);
+	};
+
+	const schedule = () => {
+		if (!stopped) {
+			timer = window.setTimeout(tick, interval * Math.min(Math.pow(2, failures), maxBackoff));
+		}
+	};
+
+	const tick = async () => {
+		if (stopped) return;
+
+		if (this.element && !this.element.isConnected) {
+			stop();
+			return;
+		}
+
+		if (!canSend()) {
+			document.addEventListener('visibilitychange', onResume);
+			window.addEventListener('online', onResume);
+			return;
+		}
+
+		failed = false;
+
+		try {
+			const response = await this.send();
+
+			if (response) {
+				failures = 0;
+			} else if (failed) {
+				failures++;
+			}
+		} catch (e) {
+			failures++;
+		}
+
+		schedule();
+	};
+
+	const stop = () => {
+		stopped = true;
+		window.clearTimeout(timer);
+		removeResumeListeners();
+
+		if (this.options === pollOptions) {
+			this.options = options;
+		}
+
+		if (DataStore.has(target, 'poll_stop') && DataStore.get(target, 'poll_stop') === stop) {
+			DataStore.remove(target, 'poll_stop');
+		}
+	};
+
+	DataStore.put(target, 'poll_stop', stop);
+	schedule();
+
+	return stop;
+}
+
+/**
+ * Stops polling an element.
+ *
+ * @param element The element.
+ */
+export function stopPolling(element: EventTarget): void {
+	if (DataStore.has(element, 'poll_stop')) {
+		DataStore.get(element, 'poll_stop')();
+	}
+}
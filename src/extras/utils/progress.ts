@@ -0,0 +1,36 @@
+import { WinterRequestExtras } from '../';
+import { WinterRequestProgress } from '../../types';
+import { ajaxProgress } from '../events';
+
+/**
+ * Reports the progress of a request by triggering the `ajaxProgress` event on the form or element, and updating the `loading` element:
+ *   * The `--winter-progress` CSS variable is set to the percentage, e.g. `42%`.
+ *   * The value of a `<progress>` element is set to the percentage. It becomes indeterminate if the total size is unknown.
+ *
+ * @param direction Either `upload` or `download`.
+ * @param progress  The progress of the transfer.
+ */
+export function reportProgress(this: WinterRequestExtras, direction: 'upload' | 'download', progress: WinterRequestProgress): void {
+	const element = this.form || this.element;
+
+	if (element) element.dispatchEvent(ajaxProgress(Object.assign({ context: this, direction }, progress)));
+
+	if (!(this.loading instanceof HTMLElement)) {
+		return;
+	}
+
+	if (progress.percent === undefined) {
+		this.loading.style.removeProperty('--winter-progress');
+	} else {
+		this.loading.style.setProperty('--winter-progress', `${progress.percent}%`);
+	}
+
+	if (this.loading instanceof HTMLProgressElement) {
+		if (progress.percent === undefined) {
+			this.loading.removeAttribute('value');
+		} else {
+			this.loading.max = 100;
+			this.loading.value = progress.percent;
+		}
+	}
+}
@@ -0,0 +1,17 @@
+import { WinterRequestExtras } from '../';
+import { ajaxBackgroundError } from '../events';
+
+/**
+ * Sends a request from an event listener or observer, without waiting for it.
+ * Failed requests are reported by the `onError` callback, so only errors thrown by the callbacks themselves are caught
+ * here. They trigger the `ajaxBackgroundError` event, rather than becoming unhandled rejections.
+ *
+ * @param request The request.
+ */
+export function sendInBackground(request: WinterRequestExtras): void {
+	request.send().catch((error) => {
+		const element = request.form || request.element;
+
+		(element && element.isConnected ? element : window).dispatchEvent(ajaxBackgroundError({ context: request, error }));
+	});
+}
@@ -1,61 +1,96 @@
 import DataStore from '../../utils/data-store';
+import { getEventTarget } from '../../utils';
 import { WinterRequestExtras } from '../';
+import { RequestOptions } from '../types';
+import { sendInBackground } from './send-in-background';
+
+/**
+ * Sends requests from `[data-request]` inputs when the enter key is pressed, and from `[data-track-input]` inputs as the user types.
+ * Listeners are only added once per root.
+ * 
+ * @param interval       The interval between key-ups to wait before sending a request.
+ * @param root           The node to listen for events on.
+ * @param requestOptions Options for the requests. Data attributes take precedence.
+ * @returns A function that removes the listeners.
+ */
+export function trackInput(interval = 300, root: Document | ShadowRoot | HTMLElement = document, requestOptions?: RequestOptions): () => void {
+	if (DataStore.has(root, 'track_input_dispose')) {
+		return DataStore.get(root, 'track_input_dispose');
+	}
 
-export function trackInput(interval = 300): void {
 	const documentOnKeydown = 'input[type=text][data-request], input[type=submit][data-request], input[type=password][data-request]';
 
-	document.addEventListener('keydown', (ev) => {
-		if (ev.key === 'Enter' && ev.target instanceof HTMLElement && ev.target.matches(documentOnKeydown)) {
+	const onKeydown = (ev: KeyboardEvent) => {
+		const target = getEventTarget(ev, documentOnKeydown, root);
+
+		if (ev.key === 'Enter' && target) {
 
-			if (DataStore.has(document, 'track_input_timer')) {
-				window.clearTimeout(DataStore.get(document, 'track_input_timer'));
-				DataStore.remove(document, 'track_input_timer');
+			if (DataStore.has(root, 'track_input_timer')) {
+				window.clearTimeout(DataStore.get(root, 'track_input_timer'));
+				DataStore.remove(root, 'track_input_timer');
 			}
 
-			const request = new WinterRequestExtras(ev.target);
-			request.send();
+			sendInBackground(new WinterRequestExtras(target, undefined, requestOptions));
 
 			ev.preventDefault();
 			ev.stopPropagation();
 		}
-	});
+	};
 
 	const documentOnKeyup = 'input[data-request][data-track-input]';
 
-	document.addEventListener('keyup', (ev) => {
-		if (ev.target instanceof HTMLInputElement && ev.target.matches(documentOnKeyup)) {
+	const onKeyup = (ev: KeyboardEvent) => {
+		const target = getEventTarget<HTMLInputElement>(ev, documentOnKeyup, root);
+
+		if (target instanceof HTMLInputElement) {
 			// Don't track inputs that we don't care about
-			if (!ev.target.matches('[type=email], [type=number], [type=password], [type=search], [type=text]')) {
+			if (!target.matches('[type=email], [type=number], [type=password], [type=search], [type=text]')) {
 				return;
 			}
 
 			// Short-circuit if there's no value change
-			const lastValue = DataStore.get(ev.target, 'track_input_last_value');
-			if (lastValue !== undefined && lastValue == this.value) {
+			const lastValue = DataStore.has(target, 'track_input_last_value') ? DataStore.get(target, 'track_input_last_value') : undefined;
+			if (lastValue !== undefined && lastValue == target.value) {
 				return;
 			}
 
-			DataStore.put(ev.target, 'track_input_last_value', ev.target.value);
+			DataStore.put(target, 'track_input_last_value', target.value);
 
-			if (DataStore.has(document, 'track_input_timer')) {
-				window.clearTimeout(DataStore.get(document, 'track_input_timer'));
-				DataStore.remove(document, 'track_input_timer');
+			if (DataStore.has(root, 'track_input_timer')) {
+				window.clearTimeout(DataStore.get(root, 'track_input_timer'));
+				DataStore.remove(root, 'track_input_timer');
 			}
 
-			const target = ev.target;
-
-			DataStore.put(ev.currentTarget, 'track_input_timer', window.setTimeout(() => {
-				let lastDataTrackInputRequest: WinterRequestExtras = DataStore.get(ev.currentTarget, 'track_input_last_request');
+			DataStore.put(root, 'track_input_timer', window.setTimeout(() => {
+				let lastDataTrackInputRequest: WinterRequestExtras = DataStore.has(root, 'track_input_last_request') ? DataStore.get(root, 'track_input_last_request') : undefined;
 
 				if (lastDataTrackInputRequest) {
 					lastDataTrackInputRequest.cancel();
 				}
 
-				lastDataTrackInputRequest = new WinterRequestExtras(target);
-				DataStore.put(ev.currentTarget, 'track_input_last_request', lastDataTrackInputRequest);
-				lastDataTrackInputRequest.send();
+				lastDataTrackInputRequest = new WinterRequestExtras(target, undefined, requestOptions);
+				DataStore.put(root, 'track_input_last_request', lastDataTrackInputRequest);
+				sendInBackground(lastDataTrackInputRequest);
 
 			}, interval));
 		}
-	});
-}
\ No newline at end of file
+	};
+
+	root.addEventListener('keydown', onKeydown);
+	root.addEventListener('keyup', onKeyup);
+
+	const dispose = () => {
+		root.removeEventListener('keydown', onKeydown);
+		root.removeEventListener('keyup', onKeyup);
+
+		if (DataStore.has(root, 'track_input_timer')) {
+			window.clearTimeout(DataStore.get(root, 'track_input_timer'));
+		}
+
+		['track_input_dispose', 'track_input_timer', 'track_input_last_request'].forEach((key) => DataStore.remove(root, key));
+	};
+
+	DataStore.put(root, 'track_input_dispose', dispose);
+
+	return dispose;
+}
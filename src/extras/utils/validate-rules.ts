@@ -0,0 +1,411 @@
+import { WinterRequestError } from '../../errors';
+
+/**
+ * The value of a field being validated: a string, a file, or a list of values for names ending with `[]`.
+ */
+export type FieldValue = FormDataEntryValue | Array<FormDataEntryValue>;
+
+/**
+ * What the size of a value is measured in, for the `min`, `max`, `between` and `size` rules.
+ */
+export type SizeType = 'numeric' | 'file' | 'string' | 'array';
+
+export interface ValidationContext {
+	/**
+	 * The form being validated.
+	 */
+	form: HTMLFormElement,
+
+	/**
+	 * The name of the field.
+	 */
+	name: string,
+
+	/**
+	 * The rules of the field, by rule name.
+	 */
+	rules: Record<string, Array<string>>,
+
+	/**
+	 * Gets the value of another field in the form.
+	 *
+	 * @param name The name of the field.
+	 * @returns The value.
+	 */
+	getValue(name: string): FieldValue,
+}
+
+/**
+ * A rule for the `data-validate-rules` attribute, e.g. `max:255`.
+ */
+export interface ValidationRule {
+	/**
+	 * Checks a value against the rule.
+	 *
+	 * @param value      The value of the field.
+	 * @param parameters The rule parameters, e.g. `['255']` for `max:255`.
+	 * @param context    The field being validated.
+	 * @returns True if the value passes.
+	 */
+	validate(value: FieldValue, parameters: Array<string>, context: ValidationContext): boolean,
+
+	/**
+	 * The validation message, or messages by the type of value. `:attribute` is replaced with the field's attribute name,
+	 * and `:other` with the attribute name of the field named by the first parameter.
+	 */
+	message: string | Partial<Record<SizeType, string>>,
+
+	/**
+	 * The placeholders for the rule parameters, e.g. `['min', 'max']` for `:min` and `:max`.
+	 */
+	parameters?: Array<string>,
+
+	/**
+	 * Also check empty values. Other rules pass for empty values, like Laravel.
+	 */
+	implicit?: boolean,
+}
+
+const rules = new Map<string, ValidationRule>();
+
+/**
+ * Registers a rule for the `data-validate-rules` attribute. Registering an existing rule replaces it.
+ *
+ * @param name The rule name, e.g. `uppercase`.
+ * @param rule The rule.
+ */
+export function registerValidationRule(name: string, rule: ValidationRule): void {
+	rules.set(name, rule);
+}
+
+/**
+ * Parses the rules of a field, e.g. `required|email|max:255`.
+ * The parameters of the `regex` and `not_regex` rules are not split on commas.
+ *
+ * @param value The rules.
+ * @returns The rule parameters, by rule name.
+ */
+export function parseRules(value: string): Record<string, Array<string>> {
+	const parsed: Record<string, Array<string>> = {};
+
+	for (const rule of value.split('|').map((rule) => rule.trim()).filter((rule) => rule)) {
+		const separator = rule.indexOf(':');
+		const name = separator === -1 ? rule : rule.substring(0, separator);
+		const parameters = separator === -1 ? '' : rule.substring(separator + 1);
+
+		parsed[name] = ['regex', 'not_regex'].includes(name) ? [parameters] : parameters.split(',').filter((parameter) => parameter !== '');
+	}
+
+	return parsed;
+}
+
+/**
+ * Converts a field name to the dot notation used in `X_WINTER_ERROR_FIELDS`, e.g. `user[address][city]` to `user.address.city`.
+ *
+ * @param name The field name.
+ * @returns The field name in dot notation.
+ */
+function toDotNotation(name: string): string {
+	return name.replace(/\[\]$/, '').replace(/\[([^\]]*)\]/g, '.$1');
+}
+
+/**
+ * Gets the name of a field used in validation messages, from its `data-validate-attribute` attribute or its name.
+ *
+ * @param form The form.
+ * @param name The field name.
+ * @returns The attribute name.
+ */
+function getAttributeName(form: HTMLFormElement, name: string): string {
+	const field = Array.from(form.elements).find((element) => (element as HTMLInputElement).name === name) as HTMLElement;
+
+	if (field && field.dataset.validateAttribute) {
+		return field.dataset.validateAttribute;
+	}
+
+	return toDotNotation(name).replace(/_/g, ' ');
+}
+
+function isEmptyValue(value: FieldValue): boolean {
+	if (Array.isArray(value)) return value.length === 0;
+	if (value instanceof File) return value.size === 0 && !value.name;
+
+	return value === undefined || value === null || value.trim() === '';
+}
+
+function getSizeType(value: FieldValue, fieldRules: Record<string, Array<string>>): SizeType {
+	if (Array.isArray(value)) return 'array';
+	if (value instanceof File) return 'file';
+	if ('numeric' in fieldRules || 'integer' in fieldRules) return 'numeric';
+
+	return 'string';
+}
+
+/**
+ * Gets the size of a value: the number itself, the number of characters or items, or the file size in kilobytes.
+ */
+function getSize(value: FieldValue, fieldRules: Record<string, Array<string>>): number {
+	const type = getSizeType(value, fieldRules);
+
+	if (type === 'array') return (value as Array<FormDataEntryValue>).length;
+	if (type === 'file') return (value as File).size / 1024;
+	if (type === 'numeric') return Number(value);
+
+	return (value as string).length;
+}
+
+const isString = (value: FieldValue): value is string => typeof value === 'string';
+
+/**
+ * Validates the fields of a form that have a `data-validate-rules` attribute, e.g. `required|email|max:255`.
+ * The messages use the same shape as `X_WINTER_ERROR_FIELDS`, so they can be displayed with `onValidationMessage`.
+ * Disabled fields are not validated.
+ *
+ * @param form The form.
+ * @returns The validation messages, keyed by field name in dot notation. Empty if the form is valid.
+ * @throws {WinterRequestError} When a `regex` or `not_regex` rule has an invalid pattern.
+ */
+export function validateForm(form: HTMLFormElement): Record<string, Array<string>> {
+	const formData = new FormData(form);
+	const errors: Record<string, Array<string>> = {};
+
+	const getValue = (name: string): FieldValue => {
+		const values = formData.getAll(name);
+
+		return name.endsWith('[]') ? values : values[values.length - 1];
+	};
+
+	const fields = Array.from(form.elements).filter((element) => {
+		return (element as HTMLInputElement).name && element.hasAttribute('data-validate-rules') && !(element as HTMLInputElement).disabled;
+	}) as Array<HTMLInputElement>;
+
+	for (const name of new Set(fields.map((field) => field.name))) {
+		const fieldRules = parseRules(fields.find((field) => field.name === name).dataset.validateRules);
+		const value = getValue(name);
+		const context: ValidationContext = { form, name, rules: fieldRules, getValue };
+		const messages: Array<string> = [];
+
+		for (const [ruleName, parameters] of Object.entries(fieldRules)) {
+			const rule = rules.get(ruleName);
+
+			if (!rule || (!rule.implicit && isEmptyValue(value)) || rule.validate(value, parameters, context)) {
+				continue;
+			}
+
+			let message = typeof rule.message === 'string' ? rule.message : rule.message[getSizeType(value, fieldRules)];
+
+			(rule.parameters || []).forEach((placeholder, index) => {
+				message = message.replace(`:${placeholder}`, parameters[index]);
+			});
+
+			if (parameters.length && message.includes(':other')) {
+				message = message.replace(':other', getAttributeName(form, parameters[0]));
+			}
+
+			messages.push(message.replace(':attribute', getAttributeName(form, name)));
+		}
+
+		if (messages.length) {
+			errors[toDotNotation(name)] = messages;
+		}
+	}
+
+	return errors;
+}
+
+/**
+ * Gets the summary message for validation errors, like Laravel: the first message, and the number of other messages.
+ *
+ * @param errors The validation messages, keyed by field name.
+ * @returns The message.
+ */
+export function getValidationSummary(errors: Record<string, Array<string>>): string {
+	const messages = Object.values(errors).flat();
+
+	if (messages.length <= 1) {
+		return messages[0] || '';
+	}
+
+	return `${messages[0]} (and ${messages.length - 1} more ${messages.length === 2 ? 'error' : 'errors'})`;
+}
+
+const sizeMessages = (size: string): Record<SizeType, string> => ({
+	numeric: `The :attribute must be ${size}.`,
+	file: `The :attribute must be ${size} kilobytes.`,
+	string: `The :attribute must be ${size} characters.`,
+	array: `The :attribute must have ${size} items.`,
+});
+
+registerValidationRule('required', {
+	implicit: true,
+	validate: (value) => !isEmptyValue(value),
+	message: 'The :attribute field is required.',
+});
+
+registerValidationRule('nullable', {
+	validate: () => true,
+	message: '',
+});
+
+registerValidationRule('accepted', {
+	implicit: true,
+	validate: (value) => isString(value) && ['yes', 'on', '1', 'true'].includes(value),
+	message: 'The :attribute must be accepted.',
+});
+
+registerValidationRule('email', {
+	validate: (value) => isString(value) && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+	message: 'The :attribute must be a valid email address.',
+});
+
+registerValidationRule('url', {
+	validate: (value) => {
+		try {
+			return isString(value) && ['http:', 'https:'].includes(new URL(value).protocol);
+		} catch (e) {
+			return false;
+		}
+	},
+	message: 'The :attribute must be a valid URL.',
+});
+
+registerValidationRule('numeric', {
+	validate: (value) => isString(value) && value.trim() !== '' && !isNaN(Number(value)),
+	message: 'The :attribute must be a number.',
+});
+
+registerValidationRule('integer', {
+	validate: (value) => isString(value) && /^-?\d+$/.test(value.trim()),
+	message: 'The :attribute must be an integer.',
+});
+
+registerValidationRule('boolean', {
+	validate: (value) => isString(value) && ['0', '1', 'true', 'false'].includes(value),
+	message: 'The :attribute field must be true or false.',
+});
+
+registerValidationRule('alpha', {
+	validate: (value) => isString(value) && /^[\p{L}\p{M}]+$/u.test(value),
+	message: 'The :attribute must only contain letters.',
+});
+
+registerValidationRule('alpha_num', {
+	validate: (value) => isString(value) && /^[\p{L}\p{M}\p{N}]+$/u.test(value),
+	message: 'The :attribute must only contain letters and numbers.',
+});
+
+registerValidationRule('alpha_dash', {
+	validate: (value) => isString(value) && /^[\p{L}\p{M}\p{N}_-]+$/u.test(value),
+	message: 'The :attribute must only contain letters, numbers, dashes and underscores.',
+});
+
+registerValidationRule('digits', {
+	validate: (value, [digits]) => isString(value) && /^\d+$/.test(value) && value.length === Number(digits),
+	message: 'The :attribute must be :digits digits.',
+	parameters: ['digits'],
+});
+
+registerValidationRule('array', {
+	validate: (value) => Array.isArray(value),
+	message: 'The :attribute must be an array.',
+});
+
+registerValidationRule('date', {
+	validate: (value) => isString(value) && !isNaN(Date.parse(value)),
+	message: 'The :attribute is not a valid date.',
+});
+
+registerValidationRule('min', {
+	validate: (value, [min], context) => getSize(value, context.rules) >= Number(min),
+	message: {
+		numeric: 'The :attribute must be at least :min.',
+		file: 'The :attribute must be at least :min kilobytes.',
+		string: 'The :attribute must be at least :min characters.',
+		array: 'The :attribute must have at least :min items.',
+	},
+	parameters: ['min'],
+});
+
+registerValidationRule('max', {
+	validate: (value, [max], context) => getSize(value, context.rules) <= Number(max),
+	message: {
+		numeric: 'The :attribute must not be greater than :max.',
+		file: 'The :attribute must not be greater than :max kilobytes.',
+		string: 'The :attribute must not be greater than :max characters.',
+		array: 'The :attribute must not have more than :max items.',
+	},
+	parameters: ['max'],
+});
+
+registerValidationRule('between', {
+	validate: (value, [min, max], context) => getSize(value, context.rules) >= Number(min) && getSize(value, context.rules) <= Number(max),
+	message: sizeMessages('between :min and :max'),
+	parameters: ['min', 'max'],
+});
+
+registerValidationRule('size', {
+	validate: (value, [size], context) => getSize(value, context.rules) === Number(size),
+	message: sizeMessages(':size'),
+	parameters: ['size'],
+});
+
+registerValidationRule('in', {
+	validate: (value, parameters) => [].concat(value).every((item) => parameters.includes(item)),
+	message: 'The selected :attribute is invalid.',
+});
+
+registerValidationRule('not_in', {
+	validate: (value, parameters) => [].concat(value).every((item) => !parameters.includes(item)),
+	message: 'The selected :attribute is invalid.',
+});
+
+registerValidationRule('regex', {
+	validate: (value, [pattern]) => {
+		const regExp = toRegExp(pattern);
+
+		return isString(value) && regExp.test(value);
+	},
+	message: 'The :attribute format is invalid.',
+});
+
+registerValidationRule('not_regex', {
+	validate: (value, [pattern]) => {
+		const regExp = toRegExp(pattern);
+
+		return isString(value) && !regExp.test(value);
+	},
+	message: 'The :attribute format is invalid.',
+});
+
+registerValidationRule('same', {
+	validate: (value, [other], context) => value === context.getValue(other),
+	message: 'The :attribute and :other must match.',
+});
+
+registerValidationRule('different', {
+	validate: (value, [other], context) => value !== context.getValue(other),
+	message: 'The :attribute and :other must be different.',
+});
+
+registerValidationRule('confirmed', {
+	validate: (value, parameters, context) => value === context.getValue(`${context.name}_confirmation`),
+	message: 'The :attribute confirmation does not match.',
+});
+
+/**
+ * Converts a PHP regular expression with delimiters, e.g. `/^[a-z]+$/i`, into a `RegExp`.
+ *
+ * @param pattern The pattern.
+ * @returns The regular expression.
+ * @throws {WinterRequestError} When the pattern is invalid, as that is a mistake in the page, not in the user's input.
+ */
+function toRegExp(pattern = ''): RegExp {
+	const match = pattern.match(/^(.)(.*)\1([a-z]*)$/s);
+
+	try {
+		// Only keep the flags that JavaScript supports
+		return match ? new RegExp(match[2], match[3].replace(/[^imsu]/g, '')) : new RegExp(pattern);
+	} catch (e) {
+		throw new WinterRequestError(`The regex validation rule has an invalid pattern "${pattern}": ${e.message}`);
+	}
+}
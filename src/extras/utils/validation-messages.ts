@@ -0,0 +1,165 @@
+import DataStore from '../../utils/data-store';
+
+let nextMessageId = 0;
+
+/**
+ * Finds the form fields for a field name from the `X_WINTER_ERROR_FIELDS` response.
+ *
+ * @param form      The form element.
+ * @param fieldName The field name, e.g. `nameArray.fieldName`.
+ * @returns The matching field elements.
+ */
+export function getFieldElements(form: HTMLElement, fieldName: string): NodeListOf<HTMLElement> {
+	// Convert `nameArray.fieldName` to `nameArray[fieldName]`
+	const arrayName = fieldName.replace(/\.(\w+)/g, '[$1]');
+
+	return form.querySelectorAll<HTMLElement>(`[name="${arrayName}"], [name="${arrayName}[]"], [name$="[${arrayName}]"], [name$="[${arrayName}][]"]`);
+}
+
+/**
+ * Displays validation messages in the form, like the Winter CMS framework:
+ *   * Messages for a field are displayed in the `[data-validate-for="fieldName"]` container, unless it already contains text.
+ *   * The exception message is displayed in the `[data-validate-error]` container. If it contains `[data-message]` elements,
+ *     the first one is cloned for each validation message instead, and the templates are hidden until the messages are
+ *     cleared.
+ *   * Containers that display messages receive the `visible` class.
+ *   * Invalid fields receive the invalid class and the `aria-invalid` attribute, and are described by their message container.
+ *
+ * @param form         The form element.
+ * @param message      The validation exception message.
+ * @param fields       The validation messages, keyed by field name.
+ * @param invalidClass The class added to invalid fields.
+ */
+export function showValidationMessages(form: HTMLElement, message: string, fields: Record<string, Array<string>>, invalidClass: string): void {
+	for (const [fieldName, fieldMessages] of Object.entries(fields)) {
+		const arrayName = fieldName.replace(/\.(\w+)/g, '[$1]');
+		const container = form.querySelector<HTMLElement>(`[data-validate-for="${fieldName}"], [data-validate-for="${arrayName}"]`);
+
+		if (container) {
+			if (!container.textContent.trim().length || container.hasAttribute('data-validate-empty')) {
+				container.setAttribute('data-validate-empty', '');
+				container.textContent = fieldMessages.join(', ');
+			}
+
+			if (!container.id) {
+				container.id = `winter-validation-message-${++nextMessageId}`;
+			}
+
+			container.classList.add('visible');
+		}
+
+		getFieldElements(form, fieldName).forEach((field) => {
+			if (invalidClass) field.classList.add(invalidClass);
+			field.setAttribute('aria-invalid', 'true');
+
+			if (container) {
+				const describedBy = (field.getAttribute('aria-describedby') || '').split(' ').filter((id) => id);
+
+				if (!describedBy.includes(container.id)) {
+					field.setAttribute('aria-describedby', [...describedBy, container.id].join(' '));
+					DataStore.put(field, 'validation_described_by', container.id);
+				}
+			}
+
+			DataStore.put(field, 'validation_invalid_class', invalidClass);
+		});
+	}
+
+	const errorContainer = form.querySelector<HTMLElement>('[data-validate-error]');
+
+	if (errorContainer) {
+		clearErrorContainer(errorContainer);
+
+		const templates = Array.from(errorContainer.querySelectorAll<HTMLElement>('[data-message]'));
+
+		if (templates.length > 0) {
+			const template = templates[0];
+
+			for (const fieldMessages of Object.values(fields)) {
+				for (const fieldMessage of fieldMessages) {
+					const clone = template.cloneNode(true) as HTMLElement;
+					clone.textContent = fieldMessage;
+					clone.hidden = false;
+					DataStore.put(clone, 'validation_message_clone', true);
+					template.before(clone);
+				}
+			}
+
+			// Hide the templates until the messages are cleared
+			templates.forEach((element) => {
+				DataStore.put(element, 'validation_template_hidden', element.hidden);
+				element.hidden = true;
+			});
+		} else {
+			DataStore.put(errorContainer, 'validation_error_text', errorContainer.textContent);
+			errorContainer.textContent = message;
+		}
+
+		errorContainer.classList.add('visible');
+	}
+}
+
+/**
+ * Removes the messages displayed in the `[data-validate-error]` container: the clones of the `[data-message]` template
+ * are removed and the template is shown again, or the original text is restored.
+ *
+ * @param container The `[data-validate-error]` container.
+ */
+function clearErrorContainer(container: HTMLElement): void {
+	container.querySelectorAll<HTMLElement>('[data-message]').forEach((element) => {
+		if (DataStore.has(element, 'validation_message_clone')) {
+			element.remove();
+		} else if (DataStore.has(element, 'validation_template_hidden')) {
+			element.hidden = DataStore.get(element, 'validation_template_hidden');
+			DataStore.remove(element, 'validation_template_hidden');
+		}
+	});
+
+	if (DataStore.has(container, 'validation_error_text')) {
+		container.textContent = DataStore.get(container, 'validation_error_text');
+		DataStore.remove(container, 'validation_error_text');
+	}
+}
+
+/**
+ * Removes the validation messages and invalid states displayed by `showValidationMessages()`.
+ *
+ * @param form The form element.
+ */
+export function clearValidationMessages(form: HTMLElement): void {
+	form.querySelectorAll<HTMLElement>('[data-validate-for], [data-validate-error]').forEach((container) => {
+		container.classList.remove('visible');
+
+		if (container.hasAttribute('data-validate-empty')) {
+			container.textContent = '';
+		}
+
+		if (container.hasAttribute('data-validate-error')) {
+			clearErrorContainer(container);
+		}
+	});
+
+	form.querySelectorAll<HTMLElement>('[aria-invalid]').forEach((field) => {
+		if (!DataStore.has(field, 'validation_invalid_class')) {
+			return;
+		}
+
+		const invalidClass = DataStore.get(field, 'validation_invalid_class');
+		if (invalidClass) field.classList.remove(invalidClass);
+		field.removeAttribute('aria-invalid');
+		DataStore.remove(field, 'validation_invalid_class');
+
+		if (DataStore.has(field, 'validation_described_by')) {
+			const id = DataStore.get(field, 'validation_described_by');
+			const describedBy = (field.getAttribute('aria-describedby') || '').split(' ').filter((value) => value && value !== id);
+
+			if (describedBy.length) {
+				field.setAttribute('aria-describedby', describedBy.join(' '));
+			} else {
+				field.removeAttribute('aria-describedby');
+			}
+
+			DataStore.remove(field, 'validation_described_by');
+		}
+	});
+}
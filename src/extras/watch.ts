@@ -1,40 +1,168 @@
 import { WinterRequestExtras } from '.';
+import { getEventTarget } from '../utils';
+import { RequestOptions } from './types';
+import { trackInput } from './utils/track-input';
+import { sendInBackground } from './utils/send-in-background';
+import { registerBehavior } from './behaviors';
+import { stopPolling } from './utils/poll';
+import { observeLazy, unobserveLazy } from './utils/lazy';
+import { listenForReplay, replayQueue } from './utils/offline-queue';
+import { monitorChanges } from './change-monitor';
+import { listenForHistory } from './utils/history';
+
+export interface WatchOptions {
+	/**
+	 * The node to listen for events on. Defaults to the document.
+	 */
+	root?: Document | ShadowRoot | HTMLElement,
+
+	/**
+	 * The elements that send a request, by the type of event that triggers it.
+	 * Selectors given here replace the defaults for that event type; other event types may be added.
+	 */
+	selectors?: Record<string, string>,
+
+	/**
+	 * Send requests from inputs when the enter key is pressed, and from `[data-track-input]` inputs as the user types.
+	 * A number sets the interval between key-ups to wait before sending a request.
+	 */
+	trackInput?: boolean | number,
+
+	/**
+	 * Start polling elements with the `data-request-poll` attribute, including those in partials as they are injected.
+	 */
+	poll?: boolean,
+
+	/**
+	 * Send the request of elements with the `data-request-lazy` attribute when they scroll into view.
+	 * The attribute value sets the root margin for the element, otherwise this root margin is used, e.g. `200px`.
+	 */
+	lazy?: boolean | string,
+
+	/**
+	 * Track unsaved changes in forms with the `data-change-monitor` attribute, see `monitorChanges()`.
+	 */
+	changeMonitor?: boolean,
+
+	/**
+	 * Replay requests queued while offline, including those queued on previous page loads, when the browser is online.
+	 */
+	replayQueue?: boolean,
+
+	/**
+	 * Restore the history entries pushed by requests with the `pushState` option, including those pushed before the page was reloaded.
+	 */
+	history?: boolean,
+
+	/**
+	 * Options for the requests sent by watched elements. Data attributes take precedence.
+	 */
+	requestOptions?: RequestOptions,
+}
+
+const watchDefaults: WatchOptions = {
+	selectors: {
+		change: 'select[data-request], input[type=radio][data-request], input[type=checkbox][data-request], input[type=file][data-request]',
+		click: 'a[data-request], button[data-request], input[type=button][data-request], input[type=submit][data-request]',
+		submit: 'form[data-request]',
+	},
+	trackInput: false,
+	poll: true,
+	lazy: true,
+	replayQueue: true,
+	changeMonitor: true,
+	history: true,
+};
 
 /**
- * Attach event listeners to the document and listen for change, click, and submit events.
+ * Attach event listeners to the root node and listen for change, click, and submit events.
+ * Elements with the `data-request-poll` attribute start polling, and elements with the `data-request-lazy` attribute send their request when they scroll into view.
+ *
+ * @param options The watch options.
+ * @returns A function that removes all listeners.
  */
-export default function watch(): void {
-	const documentOnChange = 'select[data-request], input[type=radio][data-request], input[type=checkbox][data-request], input[type=file][data-request]';
+export default function watch(options: WatchOptions = {}): () => void {
+	const root = options.root || document;
+	const selectors = Object.assign({}, watchDefaults.selectors, options.selectors);
+	const disposers: Array<() => void> = [];
 
-	document.addEventListener('change', (ev) => {
-		if (ev.target instanceof HTMLElement && ev.target.matches(documentOnChange)) {
-			const request = new WinterRequestExtras(ev.target);
-			request.send();
-		}
-	});
-	
-	const documentOnClick = 'a[data-request], button[data-request], input[type=button][data-request], input[type=submit][data-request]';
+	for (const [type, selector] of Object.entries(selectors)) {
+		const listener = (ev: Event) => {
+			const target = getEventTarget(ev, selector, root);
+
+			if (!target) return;
 
-	document.addEventListener('click', (ev) => {
-		if (ev.target instanceof HTMLElement && ev.target.matches(documentOnClick)) {
-			ev.preventDefault();
+			if (type === 'click' || type === 'submit') {
+				ev.preventDefault();
+			}
 
-			const request = new WinterRequestExtras(ev.target);
-			request.send();
+			sendInBackground(new WinterRequestExtras(target, undefined, options.requestOptions));
 
-			if (ev.target.matches('[type=submit]')) {
+			if (type === 'submit' || (type === 'click' && target.matches('[type=submit]'))) {
 				ev.stopPropagation();
 			}
-		}
-	});
+		};
+
+		root.addEventListener(type, listener);
+		disposers.push(() => root.removeEventListener(type, listener));
+	}
+
+	const track = options.trackInput !== undefined ? options.trackInput : watchDefaults.trackInput;
+
+	if (track !== false) {
+		disposers.push(trackInput(typeof track === 'number' ? track : undefined, root, options.requestOptions));
+	}
+
+	if (options.poll !== undefined ? options.poll : watchDefaults.poll) {
+		disposers.push(registerBehavior('[data-request][data-request-poll]', {
+			attach: (element) => {
+				const request = new WinterRequestExtras(element, undefined, options.requestOptions);
+
+				// Skip elements without a valid interval, rather than stopping watch() from setting up the rest
+				if (request.options.poll > 0) {
+					request.poll();
+				}
+			},
+			detach: (element) => stopPolling(element),
+		}, root));
+	}
+
+	const lazy = options.lazy !== undefined ? options.lazy : watchDefaults.lazy;
 
-	document.addEventListener('submit', (ev) => {
-		if (ev.target instanceof HTMLElement && ev.target.matches('[data-request]')) {
-			const request = new WinterRequestExtras(ev.target);
-			request.send();
+	if (lazy !== false) {
+		disposers.push(registerBehavior('[data-request][data-request-lazy]', {
+			attach: (element) => observeLazy(element, element.dataset.requestLazy || (typeof lazy === 'string' ? lazy : undefined), options.requestOptions),
+			detach: (element) => unobserveLazy(element),
+		}, root));
+	}
 
-			ev.preventDefault();
-			ev.stopPropagation();
+	if (options.changeMonitor !== undefined ? options.changeMonitor : watchDefaults.changeMonitor) {
+		const monitors = new Map<HTMLElement, () => void>();
+
+		disposers.push(registerBehavior('form[data-change-monitor]', {
+			attach: (form: HTMLFormElement) => {
+				monitors.set(form, monitorChanges(form));
+			},
+			detach: (form) => {
+				if (monitors.has(form)) monitors.get(form)();
+				monitors.delete(form);
+			},
+		}, root));
+	}
+
+	if (options.history !== undefined ? options.history : watchDefaults.history) {
+		disposers.push(listenForHistory());
+	}
+
+	const replay = options.replayQueue !== undefined ? options.replayQueue : watchDefaults.replayQueue;
+
+	if (replay && 'indexedDB' in window) {
+		disposers.push(listenForReplay(options.requestOptions && options.requestOptions.transport));
+
+		if (navigator.onLine) {
+			replayQueue().catch(() => { /* The queue is replayed when the browser is next online */ });
 		}
-	});
-}
\ No newline at end of file
+	}
+
+	return () => disposers.forEach((dispose) => dispose());
+}
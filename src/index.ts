@@ -1,2 +1,5 @@
+export * from './errors';
+export * from './types';
+export * from './transports';
 export * from './request';
-export * from './extras';
\ No newline at end of file
+export * from './extras';
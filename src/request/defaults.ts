@@ -1,3 +1,4 @@
+import { FetchTransport } from '../transports';
 import { RequestOptions } from './types';
 
 const defaults: RequestOptions = {
@@ -8,13 +9,17 @@ const defaults: RequestOptions = {
 	json: false,
 	update: {},
 	flash: false,
+	transport: new FetchTransport(),
+	retry: false,
 	//handlers: {
 	onSetup: async () => { /**/ },
 	onSuccess: async function (response) {
 		// Handle flash messages
 		if (this.options.flash && response.data.X_WINTER_FLASH_MESSAGES) {
-			for (const [type, message] of Object.entries<string>(response.data.X_WINTER_FLASH_MESSAGES)) {
-				await this.options.onFlashMessage.call(this, message, type);
+			for (const [type, messages] of Object.entries(response.data.X_WINTER_FLASH_MESSAGES)) {
+				for (const message of [].concat(messages)) {
+					await this.options.onFlashMessage.call(this, message, type);
+				}
 			}
 		}
 
@@ -31,8 +36,11 @@ const defaults: RequestOptions = {
 			await this.options.onUpdateResponse.call(this, error.response.data);
 		}
 
-		this.options.onErrorMessage.call(this, errorMsg || error.response.data);
+		this.options.onErrorMessage.call(this, errorMsg || (error.response ? error.response.data : error.message));
 	},
+	onRetry: async () => { /**/ },
+	onUploadProgress: () => { /**/ },
+	onDownloadProgress: () => { /**/ },
 	onComplete: async () => { /**/ },
 	onErrorMessage: async function (message) {
 		alert(message);
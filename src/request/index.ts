@@ -1,30 +1,47 @@
-import axios, { AxiosError, AxiosInstance, AxiosRequestConfig, CancelTokenSource } from 'axios';
-import merge from 'deepmerge';
-import { WinterResponse } from '../types';
-import { validateHandler } from '../utils';
+import { RequestQueuedError, TransportError } from '../errors';
+import { TransportRequest } from '../transports';
+import { WinterRequestProgress, WinterResponse } from '../types';
+import { mergeOptions, validateHandler } from '../utils';
 import defaults from './defaults';
-import { IWinterRequestFramework, RequestOptions } from './types';
+import { runMiddleware } from './middleware';
+import { recordFinished, recordRequest, recordSent } from './registry';
+import { getRetryDelay, getRetryOptions, isRetryable, waitForRetry } from './retry';
+import { IWinterRequestFramework, Middleware, MiddlewareContext, RequestOptions } from './types';
+
+export { Middleware, MiddlewareContext } from './types';
+export { enableRequestRegistry, getRequests, subscribeRequests, clearRequests, getRequestRecord, RegistryOptions, RequestRecord, RequestStatus, RequestUpdate, RequestListener } from './registry';
 
 export class WinterRequest<T = any> implements IWinterRequestFramework {
+	protected static middleware: Array<Middleware<any>> = [];
+
 	protected _handler: string;
-	protected _axiosCancelToken: CancelTokenSource;
+	protected _abortController: AbortController;
 	protected _options: RequestOptions<T>;
-	protected _axios: AxiosInstance;
 
 	constructor(handler?: string, options: RequestOptions = {}) {
 		validateHandler(handler);
 
 		this._handler = handler;
-		this._options = merge<RequestOptions>(defaults, options);
-		this._axiosCancelToken = axios.CancelToken.source();
-		this._axios = axios.create({
-			method: 'post',
-			headers: {
-				'X-REQUESTED-WITH': 'XMLHttpRequest', // Spoof XMLHttpRequest to trick Laravel
-				'X-WINTER-REQUEST-HANDLER': this._handler,
-			},
-			cancelToken: this._axiosCancelToken.token,
-		});
+		this._options = mergeOptions<RequestOptions>(defaults, options);
+		this._abortController = new AbortController();
+	}
+
+	/**
+	 * Adds middleware that wraps sending every request, before the `middleware` option of each request.
+	 * 
+	 * @param middleware The middleware.
+	 * @returns A function that removes the middleware.
+	 */
+	static use(middleware: Middleware<any>): () => void {
+		WinterRequest.middleware.push(middleware);
+
+		return () => {
+			const index = WinterRequest.middleware.indexOf(middleware);
+
+			if (index !== -1) {
+				WinterRequest.middleware.splice(index, 1);
+			}
+		};
 	}
 
 	get handler(): string {
@@ -39,11 +56,11 @@ export class WinterRequest<T = any> implements IWinterRequestFramework {
 		this._options = options;
 	}
 
-	get axiosCancelToken(): CancelTokenSource {
-		if (!this._axiosCancelToken) {
-			this._axiosCancelToken = axios.CancelToken.source();
+	get abortController(): AbortController {
+		if (!this._abortController) {
+			this._abortController = new AbortController();
 		}
-		return this._axiosCancelToken;
+		return this._abortController;
 	}
 
 	/**
@@ -59,7 +76,7 @@ export class WinterRequest<T = any> implements IWinterRequestFramework {
 	/**
 	 * Generates the HTTP headers to use on the request to the server.
 	 * 
-	 * Axios will automatically add the following `Content-Type` headers based on the type of data:
+	 * The transport adds the following `Content-Type` headers based on the type of data:
 	 * * `application/x-www-form-urlencoded;charset=utf-8` for `URLSearchParams`.
 	 * * `application/json;charset=utf-8` for `Object`
 	 * * `multipart/form-data; boundary=` for `FormData` with `Blob`/`File` values.
@@ -68,6 +85,8 @@ export class WinterRequest<T = any> implements IWinterRequestFramework {
 	 */
 	protected getHeaders(): Record<string, string> {
 		const requestHeaders: Record<string, string> = {
+			'X-REQUESTED-WITH': 'XMLHttpRequest', // Spoof XMLHttpRequest to trick Laravel
+			'X-WINTER-REQUEST-HANDLER': this.handler,
 			'X-WINTER-REQUEST-PARTIALS': Object.keys(this.options.update).join('&'),
 		};
 
@@ -78,16 +97,37 @@ export class WinterRequest<T = any> implements IWinterRequestFramework {
 		return requestHeaders;
 	}
 
-	protected async setup(data: T): Promise<AxiosRequestConfig> {
+	/**
+	 * Gets the middleware that wraps sending this request: the global middleware, then the `middleware` option.
+	 * 
+	 * @returns The middleware, outermost first.
+	 */
+	protected getMiddleware(): Array<Middleware<this>> {
+		return [...WinterRequest.middleware, ...(this.options.middleware || [])];
+	}
+
+	protected async setup(data: T): Promise<TransportRequest> {
 		await this.options.onSetup.call(this);
 
 		return {
 			url: this.options.url || window.location.href,
+			method: 'post',
 			data: this.getData(data),
 			headers: this.getHeaders(),
+			signal: this.abortController.signal,
+			onUploadProgress: (loaded, total) => this.options.onUploadProgress.call(this, getProgress(loaded, total)),
+			onDownloadProgress: (loaded, total) => this.options.onDownloadProgress.call(this, getProgress(loaded, total)),
 		};
 	}
 
+	/**
+	 * Optional hook, called once a request that was set up with `setup()` has completed, after the `onComplete` callback.
+	 * As requests may be sent in parallel, any state from `setup()` should be kept per request.
+	 * 
+	 * @param context The request state, with the response or error.
+	 */
+	protected teardown?(context: MiddlewareContext<this>): Promise<void>;
+
 	/**
 	 * Initiates the request to the server.
 	 * 
@@ -95,19 +135,34 @@ export class WinterRequest<T = any> implements IWinterRequestFramework {
 	 * @returns The response data.
 	 */
 	async send(data?: T): Promise<void | WinterResponse> {
+		const record = recordRequest(this, this.handler);
+
 		// Handle confirm message
 		if (this.options.confirm !== false) {
 			const message = typeof this.options.confirm === 'string' ? this.options.confirm : null;
 			const result = await this.options.onConfirmMessage.call(this, message);
-			if (!result) return;
+
+			if (!result) {
+				recordFinished(record, 'cancelled');
+				return;
+			}
 		}
 
 		let response: WinterResponse,
-			error: AxiosError;
+			error: TransportError,
+			context: MiddlewareContext<this>;
 
 		// Send the request
 		try {
-			response = await this._axios.request(await this.setup(data));
+			context = { request: this, handler: this.handler, config: await this.setup(data) };
+
+			response = await runMiddleware(this.getMiddleware(), context, () => {
+				recordSent(record, context.config);
+
+				return this.request(context.config);
+			});
+
+			recordFinished(record, 'succeeded', response);
 
 			await this.options.onSuccess.call(this, response);
 
@@ -115,15 +170,69 @@ export class WinterRequest<T = any> implements IWinterRequestFramework {
 		} catch (e) {
 			error = e;
 
+			// Requests cancelled with cancel() are not errors
+			if (e instanceof TransportError && e.cancelled) {
+				recordFinished(record, e instanceof RequestQueuedError ? 'queued' : 'cancelled', undefined, e);
+				return;
+			}
+
+			recordFinished(record, 'failed', e instanceof TransportError ? e.response : response, e);
+
 			await this.options.onError.call(this, error);
 
 			//throw e;
 		} finally {
 			await this.options.onComplete.call(this, response, error);
+
+			if (context && this.teardown) {
+				await this.teardown(Object.assign(context, { response, error }));
+			}
+		}
+	}
+
+	/**
+	 * Sends the request to the server, retrying transient failures according to the `retry` option.
+	 * Cancelling the request while waiting for the next attempt rejects with a cancelled `TransportError`.
+	 * 
+	 * @param request The request to send.
+	 * @param retry   Overrides the `retry` option.
+	 * @returns The response.
+	 */
+	protected async request(request: TransportRequest, retry: RequestOptions['retry'] = this.options.retry): Promise<WinterResponse> {
+		const retryOptions = getRetryOptions(retry);
+
+		for (let attempt = 1; ; attempt++) {
+			try {
+				return await this.options.transport.send(request);
+			} catch (e) {
+				if (!retryOptions || attempt >= retryOptions.attempts || !isRetryable(e, retryOptions)) {
+					throw e;
+				}
+
+				const delay = getRetryDelay(e, attempt, retryOptions);
+
+				await this.options.onRetry.call(this, attempt, e, delay);
+				await waitForRetry(delay, request.signal);
+			}
 		}
 	}
 
 	cancel(): void {
-		this.axiosCancelToken.cancel();
+		this.abortController.abort();
 	}
-}
\ No newline at end of file
+}
+
+/**
+ * Calculates the progress of a transfer.
+ * 
+ * @param loaded The number of bytes transferred.
+ * @param total  The total number of bytes, if known.
+ * @returns The progress.
+ */
+function getProgress(loaded: number, total?: number): WinterRequestProgress {
+	if (!total) {
+		return { loaded };
+	}
+
+	return { loaded, total, percent: Math.min(100, Math.round(loaded / total * 100)) };
+}
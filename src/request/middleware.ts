@@ -0,0 +1,48 @@
+import { WinterRequestError } from '../errors';
+import { WinterResponse } from '../types';
+import { IWinterRequestFramework, Middleware, MiddlewareContext } from './types';
+
+/**
+ * Runs the middleware around sending a request, like Koa. Each middleware runs until it calls `next()`, which runs the
+ * rest of the middleware and sends the request, and then continues with the response or error in the context.
+ *
+ * @param middleware The middleware, outermost first.
+ * @param context    The request state.
+ * @param send       Sends the request, after all middleware called `next()`.
+ * @returns The response in the context when the outermost middleware finished.
+ */
+export async function runMiddleware<C extends IWinterRequestFramework>(middleware: Array<Middleware<C>>, context: MiddlewareContext<C>, send: () => Promise<WinterResponse>): Promise<WinterResponse> {
+	let lastIndex = -1;
+
+	const dispatch = async (index: number): Promise<void> => {
+		if (index <= lastIndex) {
+			throw new WinterRequestError('next() was called multiple times by the same middleware');
+		}
+
+		lastIndex = index;
+
+		if (index === middleware.length) {
+			try {
+				context.response = await send();
+				context.error = undefined;
+			} catch (e) {
+				context.response = undefined;
+				context.error = e;
+				throw e;
+			}
+
+			return;
+		}
+
+		await middleware[index](context, () => dispatch(index + 1));
+	};
+
+	await dispatch(0);
+
+	// A middleware may have caught the error without providing a response
+	if (!context.response && context.error) {
+		throw context.error;
+	}
+
+	return context.response;
+}
@@ -0,0 +1,333 @@
+import { TransportRequest } from '../transports';
+import { WinterResponse } from '../types';
+import { IWinterRequestFramework } from './types';
+
+/**
+ * The state of a request:
+ *   * `queued`: waiting to be sent, e.g. for confirmation, or stored in the offline queue.
+ *   * `sent`: waiting for the response.
+ *   * `succeeded`, `failed` or `cancelled`: finished.
+ */
+export type RequestStatus = 'queued' | 'sent' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * A partial placed on the page with the response.
+ */
+export interface RequestUpdate {
+	/**
+	 * The partial name, or selector, returned by the server.
+	 */
+	partial: string,
+
+	/**
+	 * The selector the partial was placed with.
+	 */
+	selector: string,
+
+	/**
+	 * The number of elements updated.
+	 */
+	elements: number,
+}
+
+/**
+ * What the registry keeps in addition to the summaries.
+ */
+export interface RegistryOptions {
+	/**
+	 * Keep the request instance in the `request` property of the records.
+	 */
+	request?: boolean,
+
+	/**
+	 * Keep the request data that was sent in the `payload` property of the records.
+	 */
+	payload?: boolean,
+}
+
+/**
+ * A summary of a request. By default, records don't keep the request instance, its data or its response, so that they
+ * don't keep elements or files in memory. The instance and data can be kept for debugging with `RegistryOptions`.
+ */
+export interface RequestRecord {
+	/**
+	 * A unique ID, increasing with each request.
+	 */
+	id: number,
+
+	handler: string,
+	status: RequestStatus,
+
+	/**
+	 * The times the request was created, sent and finished, as `Date.now()` timestamps.
+	 */
+	createdAt: number,
+	sentAt?: number,
+	finishedAt?: number,
+
+	/**
+	 * The time between sending the request and finishing it, in milliseconds.
+	 */
+	duration?: number,
+
+	url?: string,
+	method?: string,
+
+	/**
+	 * The partials requested with the `X-WINTER-REQUEST-PARTIALS` header.
+	 */
+	partials: Array<string>,
+
+	/**
+	 * The names of the fields in the request data.
+	 */
+	payloadKeys: Array<string>,
+
+	/**
+	 * The HTTP status code of the response.
+	 */
+	responseStatus?: number,
+
+	/**
+	 * The keys of the response data, e.g. `result` and the partial names.
+	 */
+	responseKeys: Array<string>,
+
+	/**
+	 * The partials placed on the page with the response.
+	 */
+	updated: Array<RequestUpdate>,
+
+	/**
+	 * The error message, if the request failed.
+	 */
+	error?: string,
+
+	/**
+	 * The request instance, if the registry was enabled with the `request` option.
+	 */
+	request?: IWinterRequestFramework,
+
+	/**
+	 * The request data that was sent, if the registry was enabled with the `payload` option.
+	 */
+	payload?: TransportRequest['data'],
+}
+
+/**
+ * Called with the record that changed, and all records, oldest first.
+ */
+export type RequestListener = (record: RequestRecord, records: Array<RequestRecord>) => void;
+
+/**
+ * The maximum number of records kept. The oldest finished requests are removed first.
+ */
+const maxRecords = 100;
+
+const records: Array<RequestRecord> = [];
+const current = new WeakMap<IWinterRequestFramework, RequestRecord>();
+const listeners = new Set<RequestListener>();
+
+let nextId = 0;
+let enabled = 0;
+let keepingRequests = 0;
+let keepingPayloads = 0;
+
+function notify(record: RequestRecord): void {
+	listeners.forEach((listener) => listener(record, getRequests()));
+}
+
+/**
+ * Starts recording requests. Requests are only recorded while the registry is enabled, e.g. by `enableInspector()`.
+ * The request instances and data are kept while any caller that enabled the registry asked for them.
+ *
+ * @param options What to keep in addition to the summaries.
+ * @returns A function that stops recording, clearing the records once nothing else has the registry enabled.
+ */
+export function enableRequestRegistry(options: RegistryOptions = {}): () => void {
+	let disabled = false;
+
+	enabled++;
+	if (options.request) keepingRequests++;
+	if (options.payload) keepingPayloads++;
+
+	return () => {
+		if (disabled) return;
+		disabled = true;
+
+		if (options.request) keepingRequests--;
+		if (options.payload) keepingPayloads--;
+
+		if (--enabled === 0) {
+			records.length = 0;
+		}
+	};
+}
+
+/**
+ * Gets the names of the fields in the request data.
+ */
+function getPayloadKeys(data: unknown): Array<string> {
+	if (data instanceof FormData || data instanceof URLSearchParams) {
+		return Array.from(new Set(Array.from((data as URLSearchParams).keys())));
+	}
+
+	return data && typeof data === 'object' ? Object.keys(data) : [];
+}
+
+/**
+ * Gets the recent requests, oldest first.
+ *
+ * @param filter Only return the requests with this status or handler, or that pass this function.
+ * @returns The request records.
+ */
+export function getRequests(filter?: RequestStatus | string | ((record: RequestRecord) => boolean)): Array<RequestRecord> {
+	if (typeof filter === 'function') {
+		return records.filter(filter);
+	}
+
+	if (typeof filter === 'string') {
+		return records.filter((record) => record.status === filter || record.handler === filter);
+	}
+
+	return records.slice();
+}
+
+/**
+ * Listens for requests being created, sent, finished, or updating the page.
+ *
+ * @param listener Called when a record changes.
+ * @returns A function that removes the listener.
+ */
+export function subscribeRequests(listener: RequestListener): () => void {
+	listeners.add(listener);
+
+	return () => listeners.delete(listener);
+}
+
+/**
+ * Removes the records of finished requests.
+ */
+export function clearRequests(): void {
+	const pending = records.filter((record) => !record.finishedAt);
+
+	records.splice(0, records.length, ...pending);
+}
+
+/**
+ * Gets the record of the last time a request was sent.
+ *
+ * @param request The request.
+ * @returns The record, or undefined if the request was not sent.
+ */
+export function getRequestRecord(request: IWinterRequestFramework): RequestRecord {
+	return current.get(request);
+}
+
+/**
+ * Records that a request is being sent, if the registry is enabled.
+ *
+ * @param request The request.
+ * @param handler The name of the AJAX handler.
+ * @returns The record, or undefined if the registry is disabled.
+ */
+export function recordRequest(request: IWinterRequestFramework, handler: string): RequestRecord {
+	if (!enabled) {
+		current.delete(request);
+		return;
+	}
+
+	const record: RequestRecord = {
+		id: ++nextId,
+		handler,
+		status: 'queued',
+		createdAt: Date.now(),
+		partials: [],
+		payloadKeys: [],
+		responseKeys: [],
+		updated: [],
+	};
+
+	if (keepingRequests) {
+		record.request = request;
+	}
+
+	records.push(record);
+	current.set(request, record);
+
+	while (records.length > maxRecords) {
+		const index = records.findIndex((item) => item.finishedAt);
+
+		records.splice(index === -1 ? 0 : index, 1);
+	}
+
+	notify(record);
+
+	return record;
+}
+
+/**
+ * Records that a request was sent to the server.
+ *
+ * @param record  The record, if the registry is enabled.
+ * @param request The request sent.
+ */
+export function recordSent(record: RequestRecord, request: TransportRequest): void {
+	if (!record) return;
+
+	const partials = request.headers && request.headers['X-WINTER-REQUEST-PARTIALS'];
+
+	Object.assign(record, {
+		status: 'sent',
+		sentAt: Date.now(),
+		url: request.url,
+		method: request.method,
+		partials: partials ? partials.split('&') : [],
+		payloadKeys: getPayloadKeys(request.data),
+	});
+
+	if (keepingPayloads) {
+		record.payload = request.data;
+	}
+
+	notify(record);
+}
+
+/**
+ * Records that a request finished.
+ *
+ * @param record   The record, if the registry is enabled.
+ * @param status   The final status.
+ * @param response The response, if the server responded.
+ * @param error    The error, if the request failed.
+ */
+export function recordFinished(record: RequestRecord, status: RequestStatus, response?: WinterResponse, error?: Error): void {
+	if (!record) return;
+
+	record.status = status;
+	record.finishedAt = Date.now();
+	record.duration = record.sentAt ? record.finishedAt - record.sentAt : undefined;
+	record.error = error ? error.message : undefined;
+
+	if (response) {
+		record.responseStatus = response.status;
+		record.responseKeys = response.data && typeof response.data === 'object' ? Object.keys(response.data) : [];
+	}
+
+	notify(record);
+}
+
+/**
+ * Records that a partial from the response was placed on the page.
+ *
+ * @param request The request.
+ * @param update  The partial placed.
+ */
+export function recordUpdate(request: IWinterRequestFramework, update: RequestUpdate): void {
+	const record = current.get(request);
+
+	if (!record) return;
+
+	record.updated.push(update);
+	notify(record);
+}
@@ -0,0 +1,145 @@
+import { TransportError } from '../errors';
+import { RetryOptions } from './types';
+
+/**
+ * AJAX handlers are sent as POST requests, which are not safe to send twice. By default, only responses where the server
+ * did not run the handler are retried: timeouts, rate limits and maintenance mode.
+ */
+const retryDefaults: RetryOptions = {
+	attempts: 3,
+	delay: 500,
+	maxDelay: 10000,
+	factor: 2,
+	jitter: true,
+	statusCodes: [408, 429, 503],
+	networkErrors: false,
+};
+
+/**
+ * Resolves the `retry` request option into a complete set of retry options.
+ *
+ * @param retry The `retry` request option.
+ * @returns The retry options, or null if retrying is disabled.
+ */
+export function getRetryOptions(retry: boolean | number | RetryOptions): RetryOptions {
+	if (!retry) {
+		return null;
+	}
+
+	if (retry === true) {
+		return Object.assign({}, retryDefaults);
+	}
+
+	if (typeof retry === 'number') {
+		return Object.assign({}, retryDefaults, { attempts: retry });
+	}
+
+	return Object.assign({}, retryDefaults, retry);
+}
+
+/**
+ * Checks if a failed request may be sent again.
+ * Smart errors (status 406) and validation responses are never retried.
+ *
+ * @param error   The error of the failed attempt.
+ * @param options The retry options.
+ * @returns True if the request should be retried.
+ */
+export function isRetryable(error: TransportError, options: RetryOptions): boolean {
+	if (!(error instanceof TransportError) || error.cancelled) {
+		return false;
+	}
+
+	if (!error.response) {
+		return options.networkErrors;
+	}
+
+	if (error.response.status === 406 || error.response.status === 422) {
+		return false;
+	}
+
+	if (error.response.data && error.response.data.X_WINTER_ERROR_FIELDS) {
+		return false;
+	}
+
+	return options.statusCodes.includes(error.response.status);
+}
+
+/**
+ * Calculates how long to wait before the next attempt.
+ * The `Retry-After` header is honored for status 429 and 503 responses, up to the `maxDelay` option.
+ *
+ * @param error   The error of the failed attempt.
+ * @param attempt The number of the failed attempt, starting at 1.
+ * @param options The retry options.
+ * @returns The delay in milliseconds.
+ */
+export function getRetryDelay(error: TransportError, attempt: number, options: RetryOptions): number {
+	if (error.response && [429, 503].includes(error.response.status)) {
+		const retryAfter = parseRetryAfter(error.response.headers && error.response.headers['retry-after']);
+
+		if (retryAfter !== null) {
+			return Math.min(retryAfter, options.maxDelay);
+		}
+	}
+
+	let delay = Math.min(options.delay * Math.pow(options.factor, attempt - 1), options.maxDelay);
+
+	if (options.jitter) {
+		delay = Math.random() * delay;
+	}
+
+	return Math.round(delay);
+}
+
+/**
+ * Waits before the next attempt, unless the request is cancelled.
+ *
+ * @param delay  The delay in milliseconds.
+ * @param signal The signal of the request.
+ * @returns A promise that resolves after the delay, or rejects with a cancelled `TransportError` once the signal is
+ *          aborted.
+ */
+export function waitForRetry(delay: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const abort = () => {
+			window.clearTimeout(timer);
+			reject(new TransportError('Request aborted', undefined, true));
+		};
+
+		const timer = window.setTimeout(() => {
+			if (signal) signal.removeEventListener('abort', abort);
+			resolve();
+		}, delay);
+
+		if (signal && signal.aborted) {
+			abort();
+		} else if (signal) {
+			signal.addEventListener('abort', abort, { once: true });
+		}
+	});
+}
+
+/**
+ * Parses the value of a `Retry-After` header.
+ *
+ * @param value The number of seconds to wait, or an HTTP date.
+ * @returns The delay in milliseconds, or null if the value is invalid.
+ */
+function parseRetryAfter(value?: string): number {
+	if (!value) {
+		return null;
+	}
+
+	if (/^\d+$/.test(value.trim())) {
+		return parseInt(value, 10) * 1000;
+	}
+
+	const date = Date.parse(value);
+
+	if (isNaN(date)) {
+		return null;
+	}
+
+	return Math.max(0, date - Date.now());
+}
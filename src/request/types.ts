@@ -1,9 +1,87 @@
-import { AxiosError } from 'axios';
 import { WinterRequest } from '.';
-import { WinterRequestFlashMessageType, WinterResponse, WinterResponseAssets, WinterResponseData } from '../types';
+import { TransportError } from '../errors';
+import { Transport, TransportRequest } from '../transports';
+import { WinterRequestFlashMessageType, WinterRequestProgress, WinterResponse, WinterResponseAssets, WinterResponseData } from '../types';
 
 export type RequestOptions<T = any> = IWinterRequestFrameworkOptions<WinterRequest<T>>;
 
+export interface RetryOptions {
+	/**
+	 * The maximum number of attempts, including the first one.
+	 */
+	attempts?: number,
+
+	/**
+	 * The delay before the first retry, in milliseconds. It is multiplied by `factor` for each subsequent retry.
+	 */
+	delay?: number,
+
+	/**
+	 * The maximum delay between attempts, in milliseconds.
+	 */
+	maxDelay?: number,
+
+	/**
+	 * The multiplier applied to the delay after each attempt.
+	 */
+	factor?: number,
+
+	/**
+	 * Randomize the delay between zero and the calculated delay.
+	 */
+	jitter?: boolean,
+
+	/**
+	 * HTTP status codes that qualify for a retry. Defaults to `408`, `429` and `503`.
+	 * Add other codes, e.g. `500` or `502`, only if the handler can safely run twice.
+	 */
+	statusCodes?: Array<number>,
+
+	/**
+	 * Retry when the request fails without a response, e.g. when the connection is lost. The handler may have run,
+	 * so this is disabled by default.
+	 */
+	networkErrors?: boolean,
+}
+
+/**
+ * The state of a request as it passes through the middleware.
+ */
+export interface MiddlewareContext<C extends IWinterRequestFramework = WinterRequest> {
+	/**
+	 * The request instance.
+	 */
+	request: C,
+
+	/**
+	 * The name of the AJAX handler.
+	 */
+	handler: string,
+
+	/**
+	 * The request to send. Middleware may modify or replace it before calling `next()`, e.g. to add headers.
+	 */
+	config: TransportRequest,
+
+	/**
+	 * The response, once `next()` resolves. Middleware may replace it, or set it after catching an error to recover.
+	 */
+	response?: WinterResponse,
+
+	/**
+	 * The error, if `next()` rejected.
+	 */
+	error?: Error,
+}
+
+/**
+ * Wraps sending a request. Call `next()` to continue with the next middleware, and finally send the request.
+ *
+ * @param context The request state.
+ * @param next    Continues the pipeline. Rejects if sending the request failed.
+ */
+export type Middleware<C extends IWinterRequestFramework = WinterRequest> = (context: MiddlewareContext<C>, next: () => Promise<void>) => Promise<void>;
+
 export interface IWinterRequestFramework {
 	send(data?: any): Promise<any>;
 	cancel(): void;
@@ -29,6 +107,12 @@ export interface IWinterRequestFrameworkOptions<C extends IWinterRequestFramewor
 	 * Specifies a list of partials and page elements (as CSS selectors) to update with content received from the server.
 	 *   * If the selector begins with the `@` symbol, the content will be appended. E.g.: `@#myDiv`
 	 *   * If the selector begins with the `^` symbol, the content will be prepended. E.g. `^#myDiv`
+	 *   * If the selector begins with the `~` symbol, the content will be morphed into the existing content. E.g. `~#myDiv`
+	 *   * If the selector begins with the `=` symbol, the element itself will be replaced. E.g. `=#myDiv`
+	 *   * If the selector begins with the `<` or `>` symbol, the content will be inserted before or after the element. E.g. `>#myDiv`
+	 *   * If the selector begins with the `-` symbol, the element will be removed. E.g. `-#myDiv`
+	 *   * If the selector begins with the `*` symbol, all matching elements will be updated. It can be combined with the other symbols. E.g. `*@.myList`
+	 *   * The `this` selector targets the element that triggered the request, and may be combined with the other symbols. E.g. `=this`
 	 */
 	update?: {
 		[name: string]: string,
@@ -49,6 +133,22 @@ export interface IWinterRequestFrameworkOptions<C extends IWinterRequestFramewor
 	 */
 	json?: boolean,
 
+	/**
+	 * Sends the request to the server. Defaults to a `FetchTransport`; use an `AxiosTransport` to send requests with axios.
+	 */
+	transport?: Transport,
+
+	/**
+	 * Retry the request when it fails due to a transient error.
+	 * Either the maximum number of attempts, or the retry options. Smart errors and validation responses are never retried.
+	 */
+	retry?: boolean | number | RetryOptions,
+
+	/**
+	 * Middleware for this request, run after the global middleware added with `WinterRequest.use()`, in order.
+	 */
+	middleware?: Array<Middleware<C>>,
+
 	/**
 	 * Optional handlers to extend the functionality of this instance.
 	 */
@@ -74,7 +174,30 @@ export interface IWinterRequestFrameworkOptions<C extends IWinterRequestFramewor
 	 * 
 	 * @param error    The error object.
 	 */
-	onError? (this: C, error: AxiosError<WinterResponseData>): Promise<any>,
+	onError? (this: C, error: TransportError): Promise<any>,
+
+	/**
+	 * Callback function to execute before a failed request is sent again.
+	 * 
+	 * @param attempt The number of the attempt that failed, starting at 1.
+	 * @param error   The error object.
+	 * @param delay   The time to wait before the next attempt, in milliseconds.
+	 */
+	onRetry? (this: C, attempt: number, error: TransportError, delay: number): Promise<any>,
+
+	/**
+	 * Callback function to execute as the request body is uploaded.
+	 * 
+	 * @param progress The upload progress.
+	 */
+	onUploadProgress? (this: C, progress: WinterRequestProgress): void,
+
+	/**
+	 * Callback function to execute as the response body is downloaded.
+	 * 
+	 * @param progress The download progress.
+	 */
+	onDownloadProgress? (this: C, progress: WinterRequestProgress): void,
 
 	/**
 	 * Callback function execute in case of a success or an error.
@@ -82,7 +205,7 @@ export interface IWinterRequestFrameworkOptions<C extends IWinterRequestFramewor
 	 * @param response The response object.
 	 * @param error    The error object.
 	 */
-	onComplete? (this: C, response?: WinterResponse, error?: AxiosError<WinterResponseData>): Promise<any>,
+	onComplete? (this: C, response?: WinterResponse, error?: TransportError): Promise<any>,
 
 	/**
 	 * Called when an error message should be displayed.
@@ -0,0 +1,148 @@
+import { RequestAssertionError } from '../errors';
+import { TransportRequest } from '../transports';
+import { isPlainObject } from '../utils';
+import { MockTransport } from './mock-transport';
+
+export interface ExpectedRequest {
+	/**
+	 * Headers that must have been sent, with exact values.
+	 */
+	headers?: Record<string, string>,
+
+	/**
+	 * Partials that must have been requested using the `X-WINTER-REQUEST-PARTIALS` header, in any order.
+	 */
+	partials?: Array<string>,
+
+	/**
+	 * Whether flash messages must have been requested using the `X-WINTER-REQUEST-FLASH` header.
+	 */
+	flash?: boolean,
+
+	/**
+	 * Values that must have been sent in the payload. Other values in the payload are ignored.
+	 */
+	data?: Record<string, any>,
+}
+
+/**
+ * Converts the payload of a request into a plain object.
+ * Repeated `FormData` and `URLSearchParams` keys are collected into an array.
+ *
+ * @param request The request.
+ * @returns The payload.
+ */
+export function getRequestPayload(request: TransportRequest): Record<string, any> {
+	const data = request.data;
+
+	if (data instanceof FormData || data instanceof URLSearchParams) {
+		const payload: Record<string, any> = {};
+
+		data.forEach((value: FormDataEntryValue, key: string) => {
+			if (key in payload) {
+				payload[key] = [].concat(payload[key], value);
+			} else {
+				payload[key] = value;
+			}
+		});
+
+		return payload;
+	}
+
+	if (typeof data === 'string') {
+		return JSON.parse(data);
+	}
+
+	return data || {};
+}
+
+/**
+ * Asserts that a request was sent to an AJAX handler, and that the most recent one matches the expectations.
+ *
+ * @param transport The mock transport the request was sent with.
+ * @param handler   The AJAX handler name.
+ * @param expected  The expected headers and payload.
+ * @returns The matching request.
+ * @throws {RequestAssertionError} When no request was sent to the handler, or it does not match the expectations.
+ */
+export function assertRequestSent(transport: MockTransport, handler: string, expected: ExpectedRequest = {}): TransportRequest {
+	const request = transport.lastRequest(handler);
+
+	if (!request) {
+		throw new RequestAssertionError(`Expected a request to be sent to "${handler}", but none was sent.`);
+	}
+
+	for (const [name, value] of Object.entries(expected.headers || {})) {
+		assertEqual(`header "${name}"`, request.headers[name], value);
+	}
+
+	if (expected.partials) {
+		const partials = (request.headers['X-WINTER-REQUEST-PARTIALS'] || '').split('&').filter((partial) => partial);
+
+		assertEqual('partials', partials.sort(), [...expected.partials].sort());
+	}
+
+	if (expected.flash !== undefined) {
+		assertEqual('flash', request.headers['X-WINTER-REQUEST-FLASH'] === 'true', expected.flash);
+	}
+
+	if (expected.data) {
+		const payload = getRequestPayload(request);
+
+		for (const [key, value] of Object.entries(expected.data)) {
+			assertEqual(`payload "${key}"`, payload[key], value);
+		}
+	}
+
+	return request;
+}
+
+/**
+ * Asserts that no request was sent to an AJAX handler.
+ *
+ * @param transport The mock transport.
+ * @param handler   The AJAX handler name.
+ * @throws {RequestAssertionError} When a request was sent to the handler.
+ */
+export function assertNoRequestSent(transport: MockTransport, handler: string): void {
+	const count = transport.requestsFor(handler).length;
+
+	if (count > 0) {
+		throw new RequestAssertionError(`Expected no request to be sent to "${handler}", but ${count} were sent.`);
+	}
+}
+
+/**
+ * Asserts that two values are deeply equal.
+ *
+ * @param name     The name of the value, used in the error message.
+ * @param actual   The actual value.
+ * @param expected The expected value.
+ * @throws {RequestAssertionError} When the values differ.
+ */
+function assertEqual(name: string, actual: unknown, expected: unknown): void {
+	if (!isEqual(actual, expected)) {
+		throw new RequestAssertionError(`Expected ${name} to be ${JSON.stringify(expected)}, but got ${JSON.stringify(actual)}.`);
+	}
+}
+
+/**
+ * Checks if two values are deeply equal. Only arrays and plain objects are compared by their contents.
+ *
+ * @param a The first value.
+ * @param b The second value.
+ * @returns True if equal.
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+	if (Array.isArray(a) && Array.isArray(b)) {
+		return a.length === b.length && a.every((value, i) => isEqual(value, b[i]));
+	}
+
+	if (isPlainObject(a) && isPlainObject(b)) {
+		const keys = Object.keys(a);
+
+		return keys.length === Object.keys(b).length && keys.every((key) => isEqual(a[key], b[key]));
+	}
+
+	return a === b;
+}
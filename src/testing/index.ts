@@ -0,0 +1,3 @@
+export * from './mock-transport';
+export * from './responses';
+export * from './assertions';
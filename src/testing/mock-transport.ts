@@ -0,0 +1,149 @@
+import { TransportError } from '../errors';
+import { Transport, TransportRequest } from '../transports';
+import { WinterResponse, WinterResponseData } from '../types';
+
+export interface MockResponse {
+	/**
+	 * The response data, e.g. partials, `X_WINTER_ERROR_FIELDS`, or `X_WINTER_REDIRECT`.
+	 */
+	data?: Partial<WinterResponseData>,
+
+	/**
+	 * The HTTP status code. Defaults to `200`.
+	 */
+	status?: number,
+
+	/**
+	 * The HTTP status message.
+	 */
+	statusText?: string,
+
+	/**
+	 * The response headers.
+	 */
+	headers?: Record<string, string>,
+
+	/**
+	 * Time to wait before responding, in milliseconds.
+	 */
+	delay?: number,
+}
+
+export type MockResponder = MockResponse | ((request: TransportRequest) => MockResponse | Promise<MockResponse>);
+
+/**
+ * An in-memory transport that responds to requests with canned responses, registered by AJAX handler name.
+ * Every request is recorded, so tests can make assertions on the headers and payloads that were sent.
+ */
+export class MockTransport implements Transport {
+	protected _responders: Map<string, Array<MockResponder>> = new Map();
+	protected _requests: Array<TransportRequest> = [];
+
+	/**
+	 * All requests sent using this transport, in order.
+	 */
+	get requests(): Array<TransportRequest> {
+		return this._requests;
+	}
+
+	/**
+	 * Registers the response for an AJAX handler.
+	 * Calling this multiple times for the same handler queues the responses; the last one is repeated.
+	 *
+	 * @param handler  The AJAX handler name, e.g. `myComponent::onSubmit`.
+	 * @param response The response, or a function that returns the response for a request.
+	 * @returns This instance.
+	 */
+	on(handler: string, response: MockResponder): this {
+		if (!this._responders.has(handler)) {
+			this._responders.set(handler, []);
+		}
+
+		this._responders.get(handler).push(response);
+		return this;
+	}
+
+	/**
+	 * Gets the requests sent to an AJAX handler.
+	 *
+	 * @param handler The AJAX handler name.
+	 * @returns The requests, in order.
+	 */
+	requestsFor(handler: string): Array<TransportRequest> {
+		return this._requests.filter((request) => request.headers['X-WINTER-REQUEST-HANDLER'] === handler);
+	}
+
+	/**
+	 * Gets the most recent request, optionally for an AJAX handler only.
+	 *
+	 * @param handler The AJAX handler name.
+	 * @returns The request, or undefined if no request was sent.
+	 */
+	lastRequest(handler?: string): TransportRequest {
+		const requests = handler ? this.requestsFor(handler) : this._requests;
+
+		return requests[requests.length - 1];
+	}
+
+	/**
+	 * Removes all registered responses and recorded requests.
+	 */
+	reset(): void {
+		this._responders.clear();
+		this._requests = [];
+	}
+
+	async send(request: TransportRequest): Promise<WinterResponse> {
+		this._requests.push(request);
+
+		const handler = request.headers['X-WINTER-REQUEST-HANDLER'];
+		const responders = this._responders.get(handler);
+
+		if (!responders) {
+			throw new TransportError(`No mock response registered for handler "${handler}".`);
+		}
+
+		const responder = responders.length > 1 ? responders.shift() : responders[0];
+		const mock = typeof responder === 'function' ? await responder(request) : responder;
+
+		if (mock.delay) {
+			await wait(mock.delay, request.signal);
+		}
+
+		if (request.signal && request.signal.aborted) {
+			throw new TransportError('Request aborted', undefined, true);
+		}
+
+		const response: WinterResponse = {
+			data: Object.assign({ result: null }, mock.data),
+			status: mock.status || 200,
+			statusText: mock.statusText || '',
+			headers: mock.headers || {},
+		};
+
+		if (response.status < 200 || response.status >= 300) {
+			throw new TransportError(`Request failed with status code ${response.status}`, response);
+		}
+
+		return response;
+	}
+}
+
+/**
+ * Waits for a delay, or until the signal is aborted.
+ *
+ * @param delay  The delay in milliseconds.
+ * @param signal The abort signal.
+ */
+function wait(delay: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		const timer = window.setTimeout(resolve, delay);
+
+		if (signal) {
+			signal.addEventListener('abort', () => {
+				window.clearTimeout(timer);
+				resolve();
+			}, { once: true });
+		}
+	});
+}
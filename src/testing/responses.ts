@@ -0,0 +1,54 @@
+import { MockResponse } from './mock-transport';
+
+/**
+ * Creates a response that updates partials.
+ *
+ * @param partials The rendered partials, keyed by partial name or selector.
+ * @param result   The value returned by the AJAX handler.
+ * @returns The mock response.
+ */
+export function partialsResponse(partials: Record<string, string>, result: any = null): MockResponse {
+	return { data: Object.assign({ result }, partials) };
+}
+
+/**
+ * Creates a smart error response (status 406), as returned when an AJAX handler throws an `AjaxException`.
+ *
+ * @param message The error message.
+ * @returns The mock response.
+ */
+export function errorResponse(message: string): MockResponse {
+	return {
+		status: 406,
+		statusText: 'Not Acceptable',
+		data: { X_WINTER_ERROR_MESSAGE: message },
+	};
+}
+
+/**
+ * Creates a validation error response (status 406), as returned when an AJAX handler throws a `ValidationException`.
+ *
+ * @param fields  The validation messages, keyed by field name.
+ * @param message The validation exception message. Defaults to the first validation message.
+ * @returns The mock response.
+ */
+export function validationResponse(fields: Record<string, Array<string>>, message?: string): MockResponse {
+	return {
+		status: 406,
+		statusText: 'Not Acceptable',
+		data: {
+			X_WINTER_ERROR_MESSAGE: message || Object.values(fields)[0][0],
+			X_WINTER_ERROR_FIELDS: fields,
+		},
+	};
+}
+
+/**
+ * Creates a response that redirects the browser.
+ *
+ * @param url The URL to redirect to.
+ * @returns The mock response.
+ */
+export function redirectResponse(url: string): MockResponse {
+	return { data: { X_WINTER_REDIRECT: url } };
+}
@@ -0,0 +1,73 @@
+import axios, { AxiosInstance, AxiosResponse, Method } from 'axios';
+import { TransportError } from '../errors';
+import { WinterResponse } from '../types';
+import { Transport, TransportRequest } from './types';
+
+/**
+ * Sends requests using axios.
+ *
+ * Axios detects the `XSRF-TOKEN` cookie and sends it in the `X-XSRF-TOKEN` header automatically.
+ */
+export class AxiosTransport implements Transport {
+	protected _axios: AxiosInstance;
+
+	/**
+	 * @param instance An axios instance to send requests with, e.g. to add interceptors.
+	 */
+	constructor(instance?: AxiosInstance) {
+		this._axios = instance || axios.create();
+	}
+
+	get axios(): AxiosInstance {
+		return this._axios;
+	}
+
+	async send(request: TransportRequest): Promise<WinterResponse> {
+		const cancelToken = axios.CancelToken.source();
+
+		if (request.signal) {
+			if (request.signal.aborted) {
+				cancelToken.cancel();
+			}
+
+			request.signal.addEventListener('abort', () => cancelToken.cancel(), { once: true });
+		}
+
+		try {
+			return toWinterResponse(await this._axios.request({
+				url: request.url,
+				method: request.method as Method,
+				headers: request.headers,
+				data: request.data,
+				cancelToken: cancelToken.token,
+				onUploadProgress: request.onUploadProgress && ((e: ProgressEvent) => {
+					request.onUploadProgress(e.loaded, e.lengthComputable ? e.total : undefined);
+				}),
+				onDownloadProgress: request.onDownloadProgress && ((e: ProgressEvent) => {
+					request.onDownloadProgress(e.loaded, e.lengthComputable ? e.total : undefined);
+				}),
+			}));
+		} catch (e) {
+			if (axios.isCancel(e)) {
+				throw new TransportError('Request aborted', undefined, true);
+			}
+
+			throw new TransportError(e.message, e.response ? toWinterResponse(e.response) : undefined);
+		}
+	}
+}
+
+/**
+ * Converts an axios response into the response shape used by the framework.
+ *
+ * @param response The axios response.
+ * @returns The response.
+ */
+function toWinterResponse(response: AxiosResponse): WinterResponse {
+	return {
+		data: response.data,
+		status: response.status,
+		statusText: response.statusText,
+		headers: response.headers,
+	};
+}
@@ -0,0 +1,229 @@
+import { TransportError } from '../errors';
+import { WinterResponse } from '../types';
+import { isPlainObject } from '../utils';
+import { Transport, TransportRequest } from './types';
+
+/**
+ * Sends requests using the Fetch API, without any dependencies.
+ *
+ * Like axios, it sends the value of the `XSRF-TOKEN` cookie in the `X-XSRF-TOKEN` header on same-origin requests,
+ * sends plain objects as JSON, and parses JSON responses.
+ *
+ * The Fetch API does not report upload progress, so `FormData` and `Blob` bodies are sent with `XMLHttpRequest` when
+ * `onUploadProgress` is set, reporting progress as the body is uploaded. Other bodies don't report upload progress.
+ */
+export class FetchTransport implements Transport {
+	protected _init: RequestInit;
+
+	/**
+	 * @param init Additional options passed to `fetch()`, e.g. `credentials` or `mode`.
+	 */
+	constructor(init: RequestInit = {}) {
+		this._init = init;
+	}
+
+	async send(request: TransportRequest): Promise<WinterResponse> {
+		const headers: Record<string, string> = Object.assign({
+			'Accept': 'application/json, text/plain, */*',
+		}, getXsrfHeaders(request.url), request.headers);
+
+		let body: unknown = request.data;
+
+		if (isPlainObject(body)) {
+			body = JSON.stringify(body);
+			headers['Content-Type'] = 'application/json;charset=utf-8';
+		}
+
+		let response: WinterResponse;
+
+		try {
+			if (request.onUploadProgress && (body instanceof FormData || body instanceof Blob)) {
+				response = await sendWithXhr(request, headers, body, this._init.credentials);
+			} else {
+				response = await sendWithFetch(request, headers, body, this._init);
+			}
+		} catch (e) {
+			if (e instanceof DOMException && e.name === 'AbortError') {
+				throw new TransportError('Request aborted', undefined, true);
+			}
+
+			throw new TransportError('Network Error');
+		}
+
+		if (response.status < 200 || response.status >= 300) {
+			throw new TransportError(`Request failed with status code ${response.status}`, response);
+		}
+
+		return response;
+	}
+}
+
+/**
+ * Sends a request using the Fetch API.
+ *
+ * @param request The request.
+ * @param headers The request headers.
+ * @param body    The request body.
+ * @param init    Additional options passed to `fetch()`.
+ * @returns The response, whatever its status.
+ */
+async function sendWithFetch(request: TransportRequest, headers: Record<string, string>, body: unknown, init: RequestInit): Promise<WinterResponse> {
+	const fetchResponse = await fetch(request.url, Object.assign({ credentials: 'same-origin' }, init, {
+		method: request.method.toUpperCase(),
+		headers,
+		body: body as BodyInit,
+		signal: request.signal,
+	}));
+
+	return {
+		data: parseBody(await readBody(fetchResponse, request.onDownloadProgress)),
+		status: fetchResponse.status,
+		statusText: fetchResponse.statusText,
+		headers: getResponseHeaders(fetchResponse.headers),
+	};
+}
+
+/**
+ * Sends a request using `XMLHttpRequest`, which reports upload progress.
+ *
+ * @param request     The request.
+ * @param headers     The request headers.
+ * @param body        The request body.
+ * @param credentials The `credentials` option of `fetch()`, to send cookies the same way.
+ * @returns The response, whatever its status. Rejects with an `AbortError` when the request is aborted.
+ */
+function sendWithXhr(request: TransportRequest, headers: Record<string, string>, body: FormData | Blob, credentials: RequestCredentials = 'same-origin'): Promise<WinterResponse> {
+	return new Promise((resolve, reject) => {
+		if (request.signal && request.signal.aborted) {
+			reject(new DOMException('The request was aborted', 'AbortError'));
+			return;
+		}
+
+		const xhr = new XMLHttpRequest();
+		const onAbort = () => xhr.abort();
+
+		xhr.open(request.method.toUpperCase(), request.url);
+		xhr.withCredentials = credentials === 'include';
+
+		Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+		xhr.upload.addEventListener('progress', (ev) => request.onUploadProgress(ev.loaded, ev.lengthComputable ? ev.total : undefined));
+
+		if (request.onDownloadProgress) {
+			xhr.addEventListener('progress', (ev) => request.onDownloadProgress(ev.loaded, ev.lengthComputable ? ev.total : undefined));
+		}
+
+		xhr.addEventListener('load', () => resolve({
+			data: parseBody(xhr.responseText),
+			status: xhr.status,
+			statusText: xhr.statusText,
+			headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+		}));
+
+		xhr.addEventListener('error', () => reject(new TypeError('Network Error')));
+		xhr.addEventListener('abort', () => reject(new DOMException('The request was aborted', 'AbortError')));
+
+		if (request.signal) {
+			request.signal.addEventListener('abort', onAbort);
+			xhr.addEventListener('loadend', () => request.signal.removeEventListener('abort', onAbort));
+		}
+
+		xhr.send(body);
+	});
+}
+
+/**
+ * Gets the XSRF header for same-origin requests, using the value of the `XSRF-TOKEN` cookie.
+ *
+ * @param url The request URL.
+ * @returns The headers to send with the request.
+ */
+function getXsrfHeaders(url: string): Record<string, string> {
+	if (new URL(url, window.location.href).origin !== window.location.origin) {
+		return {};
+	}
+
+	const match = document.cookie.match(/(?:^|;\s*)XSRF-TOKEN=([^;]*)/);
+
+	return match ? { 'X-XSRF-TOKEN': decodeURIComponent(match[1]) } : {};
+}
+
+/**
+ * Reads the response body, reporting download progress as it is received.
+ *
+ * @param response   The response.
+ * @param onProgress Called as the response body is downloaded.
+ * @returns The response body.
+ */
+async function readBody(response: Response, onProgress?: TransportRequest['onDownloadProgress']): Promise<string> {
+	if (!onProgress || !response.body) {
+		return response.text();
+	}
+
+	const length = parseInt(response.headers.get('Content-Length'), 10);
+	const total = isNaN(length) ? undefined : length;
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+
+	let body = '',
+		loaded = 0;
+
+	for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+		loaded += chunk.value.byteLength;
+		body += decoder.decode(chunk.value, { stream: true });
+
+		onProgress(loaded, total);
+	}
+
+	return body + decoder.decode();
+}
+
+/**
+ * Parses the response body as JSON, if possible.
+ *
+ * @param body The response body.
+ * @returns The parsed response body, or the raw body if it is not JSON.
+ */
+function parseBody(body: string): any {
+	try {
+		return JSON.parse(body);
+	} catch (e) {
+		return body;
+	}
+}
+
+/**
+ * Converts response headers into an object with lowercase names.
+ *
+ * @param headers The response headers.
+ * @returns The headers.
+ */
+function getResponseHeaders(headers: Headers): Record<string, string> {
+	const result: Record<string, string> = {};
+
+	headers.forEach((value, name) => {
+		result[name.toLowerCase()] = value;
+	});
+
+	return result;
+}
+
+/**
+ * Parses the response headers of an `XMLHttpRequest` into an object with lowercase names.
+ *
+ * @param headers The headers, as returned by `getAllResponseHeaders()`.
+ * @returns The headers.
+ */
+function parseResponseHeaders(headers: string): Record<string, string> {
+	const result: Record<string, string> = {};
+
+	for (const line of headers.trim().split(/[\r\n]+/)) {
+		const index = line.indexOf(':');
+
+		if (index > 0) {
+			result[line.substring(0, index).trim().toLowerCase()] = line.substring(index + 1).trim();
+		}
+	}
+
+	return result;
+}
@@ -0,0 +1,58 @@
+import { WinterResponse } from '../types';
+
+export interface TransportRequest {
+	/**
+	 * URL to send the request to.
+	 */
+	url: string,
+
+	/**
+	 * The HTTP method.
+	 */
+	method: string,
+
+	/**
+	 * HTTP headers to send with the request.
+	 */
+	headers: Record<string, string>,
+
+	/**
+	 * The request body. Plain objects are sent as JSON.
+	 */
+	data?: FormData | URLSearchParams | Record<string, any> | string,
+
+	/**
+	 * Aborts the request when signaled.
+	 */
+	signal?: AbortSignal,
+
+	/**
+	 * Called as the request body is uploaded.
+	 *
+	 * @param loaded The number of bytes uploaded.
+	 * @param total  The total number of bytes to upload, if known.
+	 */
+	onUploadProgress?(loaded: number, total?: number): void,
+
+	/**
+	 * Called as the response body is downloaded.
+	 *
+	 * @param loaded The number of bytes downloaded.
+	 * @param total  The total number of bytes to download, if known.
+	 */
+	onDownloadProgress?(loaded: number, total?: number): void,
+}
+
+/**
+ * Sends requests to the server on behalf of a request instance.
+ */
+export interface Transport {
+	/**
+	 * Sends a request to the server.
+	 *
+	 * @param request The request to send.
+	 * @returns The response, if the server responded with a successful status code.
+	 * @throws {TransportError} When the request fails, is cancelled, or the server responds with an error status code.
+	 */
+	send(request: TransportRequest): Promise<WinterResponse>;
+}
@@ -1,7 +1,22 @@
-import { AxiosResponse } from 'axios';
-
 export type WinterRequestFlashMessageType = 'info' | 'success' | 'warning' | 'error';
 
+export interface WinterRequestProgress {
+	/**
+	 * The number of bytes transferred.
+	 */
+	loaded: number,
+
+	/**
+	 * The total number of bytes to transfer, if known.
+	 */
+	total?: number,
+
+	/**
+	 * The percentage transferred (0 to 100), if the total is known.
+	 */
+	percent?: number,
+}
+
 export interface WinterResponseAssets {
 	js?: Array<string>,
 	css?: Array<string>,
@@ -19,6 +34,11 @@ export interface WinterResponseData {
 	 */
 	X_WINTER_ASSETS?: WinterResponseAssets,
 
+	/**
+	 * The contents of the partials to update, keyed by partial name or selector.
+	 */
+	X_WINTER_REQUEST_PARTIALS?: Record<string, string>,
+
 	/**
 	 * If an AJAXException was thrown, the error message.
 	 */
@@ -32,9 +52,9 @@ export interface WinterResponseData {
 	},
 
 	/**
-	 * Flash messages.
+	 * Flash messages, either one message or an array of messages per type.
 	 */
-	X_WINTER_FLASH_MESSAGES?: Record<WinterRequestFlashMessageType, string>,
+	X_WINTER_FLASH_MESSAGES?: Partial<Record<WinterRequestFlashMessageType, string | Array<string>>>,
 	
 	/**
 	 * Request data.
@@ -47,6 +67,24 @@ export interface WinterResponseData {
 	[key: string]: any,
 }
 
-export interface WinterResponse extends AxiosResponse {
-	data: WinterResponseData
+export interface WinterResponse<D = WinterResponseData> {
+	/**
+	 * The response data.
+	 */
+	data: D,
+
+	/**
+	 * The HTTP status code.
+	 */
+	status: number,
+
+	/**
+	 * The HTTP status message.
+	 */
+	statusText: string,
+
+	/**
+	 * The response headers, with lowercase names.
+	 */
+	headers: Record<string, string>,
 }
\ No newline at end of file
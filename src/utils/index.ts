@@ -1,7 +1,12 @@
+import merge from 'deepmerge';
 import { parse } from 'json5';
 import { InvalidHandlerError } from '../errors';
+import { isPlainObject } from './is-plain-object';
+import { mergeData } from './serialize';
 
 export * from './data-store';
+export * from './is-plain-object';
+export * from './serialize';
 
 type HTMLInputLikeElements = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement | HTMLButtonElement;
 
@@ -45,8 +50,8 @@ export function paramToObj(value: string): any {
  * @returns The request data collected from the element's parents.
  */
 export function getRequestDataAttrs(el: HTMLElement): Record<string, any> {
-	const requestData = {};
-	const elements = [];
+	const requestData: Record<string, any> = {};
+	const elements: Array<HTMLElement> = [];
 
 	for (
 		let current = el && el.parentElement;
@@ -59,11 +64,7 @@ export function getRequestDataAttrs(el: HTMLElement): Record<string, any> {
 	}
 
 	// Reverse the array so that parent data gets overridden by child request data.
-	elements.reverse().forEach((element) => {
-		Object.assign(requestData, paramToObj(element.dataset.requestData));
-	});
-
-	return requestData;
+	return elements.reverse().reduce((requestData, element) => mergeData(requestData, paramToObj(element.dataset.requestData)), requestData);
 }
 
 /**
@@ -88,6 +89,24 @@ export function getElement<E extends HTMLElement = HTMLElement>(element: string
 	return element;
 }
 
+/**
+ * Finds the element matching a selector that an event was dispatched to or bubbled through, including elements inside shadow roots.
+ * 
+ * @param ev       The event.
+ * @param selector The selector to match.
+ * @param root     Stop searching at this node.
+ * @returns The matching element, or undefined.
+ */
+export function getEventTarget<E extends HTMLElement = HTMLElement>(ev: Event, selector: string, root?: Node): E {
+	for (const node of ev.composedPath()) {
+		if (node === root) break;
+
+		if (node instanceof HTMLElement && node.matches(selector)) {
+			return node as E;
+		}
+	}
+}
+
 /**
  * Checks if an element is input-like.
  * 
@@ -108,6 +127,33 @@ export function isInputLike<T extends HTMLInputLikeElements>(element: HTMLElemen
  * @returns True if empty, false if not.
  */
 export function isEmpty(obj: Record<string, unknown>): boolean {
-	for (const _i in obj) return true;
-	return false;
-}
\ No newline at end of file
+	for (const _i in obj) return false;
+	return true;
+}
+
+/**
+ * Removes properties with undefined values, so that they don't override defaults when merged.
+ * 
+ * @param obj The object.
+ * @returns A copy of the object without undefined values.
+ */
+export function withoutUndefined<T extends Record<string, any>>(obj: T): Partial<T> {
+	const result: Partial<T> = {};
+
+	for (const [key, value] of Object.entries(obj)) {
+		if (value !== undefined) result[key as keyof T] = value;
+	}
+
+	return result;
+}
+
+/**
+ * Deeply merges request options. Only plain objects are merged, other objects (e.g. elements) are copied by reference.
+ * 
+ * @param target The options to merge into.
+ * @param source The options that take precedence.
+ * @returns The merged options.
+ */
+export function mergeOptions<T>(target: Partial<T>, source: Partial<T>): T {
+	return merge<T>(target, source, { isMergeableObject: isPlainObject });
+}
@@ -0,0 +1,13 @@
+/**
+ * Checks if a value is a plain object, i.e. not a class instance such as an element.
+ * 
+ * @param value The value to check.
+ * @returns True if the value is a plain object.
+ */
+export function isPlainObject(value: unknown): value is Record<string, any> {
+	if (typeof value !== 'object' || value === null) return false;
+
+	const prototype = Object.getPrototypeOf(value);
+
+	return prototype === Object.prototype || prototype === null;
+}
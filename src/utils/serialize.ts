@@ -0,0 +1,160 @@
+import merge from 'deepmerge';
+import { isPlainObject } from './is-plain-object';
+
+/**
+ * Splits a PHP-style field name into its keys. Empty brackets become empty keys.
+ *
+ * @param name The field name, e.g. `user[address][city]` or `tags[]`.
+ * @returns The keys, e.g. `['user', 'address', 'city']` or `['tags', '']`.
+ */
+export function parseFieldName(name: string): Array<string> {
+	const match = name.match(/^([^[\]]+)((?:\[[^[\]]*\])*)$/);
+
+	if (!match) {
+		return [name];
+	}
+
+	return [match[1], ...Array.from(match[2].matchAll(/\[([^[\]]*)\]/g), (key) => key[1])];
+}
+
+/**
+ * Sets a value in an object using a PHP-style field name, creating the nested objects along the way.
+ * Empty brackets append to the list, using the next integer key.
+ *
+ * @param target The object to set the value in.
+ * @param name   The field name, e.g. `user[address][city]` or `tags[]`.
+ * @param value  The value.
+ */
+export function setFieldValue(target: Record<string, any>, name: string, value: unknown): void {
+	const keys = parseFieldName(name);
+	let container = target;
+
+	keys.forEach((key, index) => {
+		if (key === '') {
+			key = String(getNextIndex(container));
+		}
+
+		if (index === keys.length - 1) {
+			container[key] = value;
+			return;
+		}
+
+		if (!isPlainObject(container[key])) {
+			container[key] = {};
+		}
+
+		container = container[key];
+	});
+}
+
+/**
+ * Gets the key that empty brackets append with, the way PHP does: one more than the largest integer key.
+ *
+ * @param container The object that is appended to.
+ * @returns The next integer key.
+ */
+function getNextIndex(container: Record<string, any>): number {
+	const indexes = Object.keys(container).filter((key) => /^\d+$/.test(key)).map(Number);
+
+	return indexes.length ? Math.max(...indexes) + 1 : 0;
+}
+
+/**
+ * Converts objects with the keys `0` to `n - 1` into arrays, recursively.
+ *
+ * @param value The value to convert.
+ * @returns The converted value.
+ */
+function toArrays(value: unknown): unknown {
+	if (!isPlainObject(value)) {
+		return value;
+	}
+
+	const keys = Object.keys(value);
+
+	if (keys.every((key, index) => key === String(index))) {
+		return keys.map((key) => toArrays(value[key]));
+	}
+
+	for (const key of keys) {
+		value[key] = toArrays(value[key]);
+	}
+
+	return value;
+}
+
+/**
+ * Gets the names and values of the fields in a form, leaving out files.
+ *
+ * @param form The form.
+ * @returns The field names and values.
+ */
+export function getFormFields(form: HTMLFormElement): Array<[string, string]> {
+	const fields: Array<[string, string]> = [];
+
+	for (const [name, value] of new FormData(form)) {
+		if (value instanceof Blob) continue;
+
+		fields.push([name, value]);
+	}
+
+	return fields;
+}
+
+/**
+ * Builds nested data from form fields with PHP-style names, the way Laravel parses a URL-encoded request.
+ *   * `user[address][city]` creates nested objects.
+ *   * `tags[]` and `tags[0]` create arrays, so all values of repeated names are kept.
+ *   * Other repeated names keep the last value.
+ *
+ * @param entries The field names and values, e.g. from `FormData`.
+ * @returns The nested data.
+ */
+export function serializeFields(entries: Iterable<[string, unknown]>): Record<string, any> {
+	const data: Record<string, any> = {};
+
+	for (const [name, value] of entries) {
+		setFieldValue(data, name, value);
+	}
+
+	return toArrays(data) as Record<string, any>;
+}
+
+/**
+ * Flattens nested data into PHP-style field names, the reverse of `serializeFields()`.
+ *   * Nested objects become `user[address][city]`.
+ *   * Arrays under a name ending with `[]` repeat the name, other arrays use their indexes.
+ *   * `null` and `undefined` become empty strings.
+ *
+ * @param data   The nested data.
+ * @param prefix The name of the data, if it is nested.
+ * @returns The field names and values.
+ */
+export function flattenFields(data: Record<string, any>, prefix?: string): Array<[string, string]> {
+	const fields: Array<[string, string]> = [];
+
+	for (const [key, value] of Object.entries(data)) {
+		const name = prefix !== undefined ? `${prefix}[${key}]` : key;
+
+		if (Array.isArray(value) && name.endsWith('[]')) {
+			value.forEach((item) => fields.push([name, item === null || item === undefined ? '' : String(item)]));
+		} else if (Array.isArray(value) || isPlainObject(value)) {
+			fields.push(...flattenFields(Object.assign({}, value), name));
+		} else {
+			fields.push([name, value === null || value === undefined ? '' : String(value)]);
+		}
+	}
+
+	return fields;
+}
+
+/**
+ * Deeply merges request data. Plain objects are merged, while arrays and other values are replaced.
+ *
+ * @param target The data to merge into.
+ * @param source The data that takes precedence.
+ * @returns The merged data.
+ */
+export function mergeData(target: Record<string, any>, source: Record<string, any>): Record<string, any> {
+	return merge(target, source, { isMergeableObject: isPlainObject, arrayMerge: (_, sourceArray) => sourceArray });
+}
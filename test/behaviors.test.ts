@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WinterRequestExtras, registerBehavior } from '../src';
+import { MockTransport } from '../src/testing';
+
+describe('behaviors', () => {
+	let transport: MockTransport;
+	const disposers: Array<() => void> = [];
+
+	const register = (selector: string, root?: Document | ShadowRoot | HTMLElement) => {
+		const behavior = { attach: vi.fn(), detach: vi.fn() };
+
+		disposers.push(registerBehavior(selector, behavior, root));
+
+		return behavior;
+	};
+
+	const send = (update: Record<string, string>, data: Record<string, unknown>) => {
+		transport.reset();
+		transport.on('onUpdate', { data });
+
+		return new WinterRequestExtras('#form', undefined, { transport, update }).send();
+	};
+
+	beforeEach(() => {
+		transport = new MockTransport();
+		document.body.innerHTML = '<form id="form" data-request="onUpdate"></form><div id="target"><span class="widget"></span></div>';
+	});
+
+	afterEach(() => {
+		disposers.splice(0).forEach((dispose) => dispose());
+	});
+
+	it('attaches to matching elements on the page and in injected partials', async () => {
+		const behavior = register('.widget');
+
+		expect(behavior.attach).toHaveBeenCalledTimes(1);
+
+		await send({ content: '@#target' }, { content: '<span class="widget"></span>' });
+
+		expect(behavior.attach).toHaveBeenCalledTimes(2);
+		expect(behavior.attach).toHaveBeenLastCalledWith(document.querySelectorAll('.widget')[1]);
+		expect(behavior.detach).not.toHaveBeenCalled();
+	});
+
+	it('detaches from content before it is replaced', async () => {
+		const behavior = register('.widget');
+		const widget = document.querySelector('.widget');
+
+		await send({ content: '#target' }, { content: '<p>New</p>' });
+
+		expect(behavior.detach).toHaveBeenCalledWith(widget);
+	});
+
+	it('detaches from all elements when it is unregistered', () => {
+		const behavior = register('.widget');
+
+		disposers.pop()();
+
+		expect(behavior.detach).toHaveBeenCalledWith(document.querySelector('.widget'));
+	});
+
+	it('removes its listeners once the last behavior is unregistered', () => {
+		const addDocument = vi.spyOn(document, 'addEventListener');
+		const removeDocument = vi.spyOn(document, 'removeEventListener');
+		const removeWindow = vi.spyOn(window, 'removeEventListener');
+
+		register('.widget');
+		register('.other');
+
+		expect(addDocument.mock.calls.map(([type]) => type)).toEqual(['ajaxBeforeReplace', 'ajaxUpdate']);
+
+		disposers.pop()();
+		expect(removeDocument).not.toHaveBeenCalled();
+
+		disposers.pop()();
+		expect(removeDocument.mock.calls.map(([type]) => type)).toEqual(['ajaxBeforeReplace', 'ajaxUpdate']);
+		expect(removeWindow).toHaveBeenCalledWith('ajaxUpdateComplete', expect.any(Function));
+	});
+
+	it('attaches to elements inside a shadow root', () => {
+		const host = document.createElement('div');
+		const shadowRoot = host.attachShadow({ mode: 'open' });
+		shadowRoot.innerHTML = '<span class="widget"></span>';
+		document.body.appendChild(host);
+
+		const behavior = register('.widget', shadowRoot);
+
+		expect(behavior.attach).toHaveBeenCalledTimes(1);
+		expect(behavior.attach).toHaveBeenCalledWith(shadowRoot.querySelector('.widget'));
+	});
+
+	it('attaches to partials injected inside a shadow root', () => {
+		const host = document.createElement('div');
+		const shadowRoot = host.attachShadow({ mode: 'open' });
+		shadowRoot.innerHTML = '<div id="inner"></div>';
+		document.body.appendChild(host);
+
+		const behavior = register('.widget', shadowRoot);
+		const inner = shadowRoot.querySelector('#inner');
+
+		inner.innerHTML = '<span class="widget"></span>';
+		inner.dispatchEvent(new CustomEvent('ajaxUpdate', { bubbles: true, detail: {} }));
+
+		expect(behavior.attach).toHaveBeenCalledWith(inner.firstElementChild);
+	});
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WinterRequestExtras, getChangedForms, isFormChanged, monitorChanges, resetChangeMonitor } from '../src';
+import { MockTransport } from '../src/testing';
+
+describe('change monitor', () => {
+	let form: HTMLFormElement;
+	let input: HTMLInputElement;
+	let dispose: () => void;
+
+	const edit = (value: string) => {
+		input.value = value;
+		input.dispatchEvent(new Event('input', { bubbles: true }));
+	};
+
+	beforeEach(() => {
+		document.body.innerHTML = `
+			<form id="form" data-request="onSave" data-window-close-confirm="Discard your draft?">
+				<input name="title" value="Draft">
+			</form>
+			<button id="other" data-request="onLeave">Leave</button>
+		`;
+		form = document.querySelector('#form');
+		input = form.querySelector('input');
+		dispose = monitorChanges(form);
+	});
+
+	afterEach(() => {
+		dispose();
+	});
+
+	it('marks the form as changed while its data differs from the saved data', () => {
+		const events: Array<string> = [];
+		form.addEventListener('changed', () => events.push('changed'));
+		form.addEventListener('unchanged', () => events.push('unchanged'));
+
+		edit('Edited');
+		edit('Edited again');
+
+		expect(form.hasAttribute('data-changed')).toBe(true);
+		expect(isFormChanged(form)).toBe(true);
+		expect(getChangedForms()).toEqual([form]);
+
+		edit('Draft');
+
+		expect(form.hasAttribute('data-changed')).toBe(false);
+		expect(events).toEqual(['changed', 'unchanged']);
+	});
+
+	it('saves the form with resetChangeMonitor()', () => {
+		edit('Edited');
+		resetChangeMonitor(form);
+
+		expect(isFormChanged(form)).toBe(false);
+	});
+
+	it('saves the data that was sent once a request from the form succeeds', async () => {
+		const transport = new MockTransport();
+		transport.on('onSave', { data: {}, delay: 10 });
+
+		edit('Sent');
+		const promise = new WinterRequestExtras(form, undefined, { transport }).send();
+		await vi.waitFor(() => expect(transport.requests).toHaveLength(1), { interval: 1 });
+		edit('Typed while sending');
+		await promise;
+
+		expect(isFormChanged(form)).toBe(true);
+
+		edit('Sent');
+
+		expect(isFormChanged(form)).toBe(false);
+	});
+
+	it('asks for confirmation before the page is unloaded while the form is changed', () => {
+		const unchanged = new Event('beforeunload', { cancelable: true });
+		window.dispatchEvent(unchanged);
+		expect(unchanged.defaultPrevented).toBe(false);
+
+		edit('Edited');
+
+		const changed = new Event('beforeunload', { cancelable: true });
+		window.dispatchEvent(changed);
+		expect(changed.defaultPrevented).toBe(true);
+	});
+
+	it('asks for confirmation before another request redirects', async () => {
+		const transport = new MockTransport();
+		transport.on('onLeave', { data: { X_WINTER_REDIRECT: '/elsewhere' } });
+
+		const onConfirmMessage = vi.fn(async () => false);
+
+		edit('Edited');
+		await new WinterRequestExtras('#other', undefined, { transport, onConfirmMessage }).send();
+
+		expect(onConfirmMessage).toHaveBeenCalledWith('Discard your draft?');
+	});
+
+	it('stops tracking the form when disposed', () => {
+		dispose();
+
+		edit('Edited');
+
+		expect(isFormChanged(form)).toBe(false);
+		expect(getChangedForms()).toEqual([]);
+	});
+});
@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { WinterRequestExtras } from '../src';
+import { TransportError } from '../src/errors';
+import { TransportRequest } from '../src/transports';
+import { WinterResponse } from '../src/types';
+import { hasChunkableFiles, uploadChunks } from '../src/extras/utils/chunked-upload';
+
+describe('chunked uploads', () => {
+	let request: WinterRequestExtras;
+	let sent: Array<TransportRequest>;
+	let send: ReturnType<typeof vi.fn>;
+
+	const ok = (): WinterResponse => ({ data: { result: null }, status: 200, statusText: '', headers: {} });
+
+	const upload = (...files: Array<File>): TransportRequest => {
+		const data = new FormData();
+		data.append('title', 'Report');
+		files.forEach((file) => data.append('files[]', file));
+
+		return {
+			url: '/upload',
+			method: 'post',
+			headers: { 'X-WINTER-REQUEST-HANDLER': 'onUpload', 'X-WINTER-REQUEST-PARTIALS': 'result' },
+			data,
+		};
+	};
+
+	const field = (chunk: TransportRequest, name: string) => (chunk.data as FormData).get(name);
+
+	beforeEach(() => {
+		window.localStorage.clear();
+		document.body.innerHTML = '<form id="form" data-request="onUpload"></form>';
+		request = new WinterRequestExtras('#form', undefined, { chunkSize: 4 });
+		sent = [];
+		send = vi.fn(async (chunk: TransportRequest) => {
+			sent.push(chunk);
+			return ok();
+		});
+	});
+
+	it('only splits requests with non-empty files', () => {
+		expect(hasChunkableFiles(upload(new File(['data'], 'a.txt')))).toBe(true);
+		expect(hasChunkableFiles(upload(new File([], 'empty.txt')))).toBe(false);
+		expect(hasChunkableFiles({ url: '/', method: 'post', headers: {}, data: { title: 'Report' } })).toBe(false);
+	});
+
+	it('sends each chunk with the other fields and the chunk fields', async () => {
+		const listener = vi.fn();
+		document.querySelector('#form').addEventListener('ajaxChunkUploaded', listener);
+
+		await uploadChunks.call(request, upload(new File(['0123456789'], 'a.txt')), send);
+
+		expect(sent).toHaveLength(3);
+		expect(sent.map((chunk) => field(chunk, '_chunk[index]'))).toEqual(['0', '1', '2']);
+		expect(sent.map((chunk) => (field(chunk, 'files[]') as File).size)).toEqual([4, 4, 2]);
+
+		const first = sent[0];
+		expect(field(first, 'title')).toBe('Report');
+		expect(field(first, '_chunk[total]')).toBe('3');
+		expect(field(first, '_chunk[field]')).toBe('files[]');
+		expect(field(first, '_chunk[file_name]')).toBe('a.txt');
+		expect(field(first, '_chunk[file_size]')).toBe('10');
+		expect(new Set(sent.map((chunk) => field(chunk, '_chunk[upload_id]'))).size).toBe(1);
+
+		expect(listener).toHaveBeenCalledTimes(3);
+	});
+
+	it('only requests partials with the last chunk', async () => {
+		await uploadChunks.call(request, upload(new File(['01234'], 'a.txt'), new File(['567'], 'b.txt')), send);
+
+		expect(sent.map((chunk) => chunk.headers['X-WINTER-REQUEST-PARTIALS'])).toEqual(['', '', 'result']);
+	});
+
+	it('reports the upload progress across all files', async () => {
+		const onUploadProgress = vi.fn();
+		send.mockImplementation(async (chunk: TransportRequest) => {
+			chunk.onUploadProgress((field(chunk, 'files[]') as File).size);
+			return ok();
+		});
+
+		await uploadChunks.call(request, Object.assign(upload(new File(['01234'], 'a.txt'), new File(['567'], 'b.txt')), { onUploadProgress }), send);
+
+		expect(onUploadProgress.mock.calls).toEqual([[4, 8], [5, 8], [8, 8]]);
+	});
+
+	it('retries chunks with the chunkRetry option', async () => {
+		await uploadChunks.call(request, upload(new File(['01'], 'a.txt')), send);
+
+		expect(send).toHaveBeenCalledWith(expect.anything(), request.options.chunkRetry);
+	});
+
+	it('resumes an upload that failed without a response from the next chunk', async () => {
+		const file = new File(['0123456789'], 'a.txt');
+
+		send.mockImplementation(async (chunk: TransportRequest) => {
+			sent.push(chunk);
+
+			if (field(chunk, '_chunk[index]') === '1') throw new TransportError('Network Error');
+
+			return ok();
+		});
+
+		await expect(uploadChunks.call(request, upload(file), send)).rejects.toThrow('Network Error');
+
+		const uploadId = field(sent[0], '_chunk[upload_id]');
+		sent = [];
+		send.mockImplementation(async (chunk: TransportRequest) => {
+			sent.push(chunk);
+			return ok();
+		});
+
+		await uploadChunks.call(request, upload(file), send);
+
+		expect(sent.map((chunk) => field(chunk, '_chunk[index]'))).toEqual(['1', '2']);
+		expect(field(sent[0], '_chunk[upload_id]')).toBe(uploadId);
+	});
+
+	it('starts over if the server rejected a chunk', async () => {
+		const file = new File(['0123456789'], 'a.txt');
+
+		send.mockImplementation(async (chunk: TransportRequest) => {
+			if (field(chunk, '_chunk[index]') === '1') throw new TransportError('Unprocessable', { data: {}, status: 422, statusText: '', headers: {} });
+
+			return ok();
+		});
+
+		await expect(uploadChunks.call(request, upload(file), send)).rejects.toThrow('Unprocessable');
+
+		send.mockImplementation(async (chunk: TransportRequest) => {
+			sent.push(chunk);
+			return ok();
+		});
+
+		await uploadChunks.call(request, upload(file), send);
+
+		expect(sent.map((chunk) => field(chunk, '_chunk[index]'))).toEqual(['0', '1', '2']);
+	});
+});
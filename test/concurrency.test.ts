@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { WinterRequestExtras } from '../src';
+import { ConcurrencyMode } from '../src/extras/types';
+import { MockTransport, partialsResponse } from '../src/testing';
+
+describe('concurrency', () => {
+	let transport: MockTransport;
+
+	beforeEach(() => {
+		transport = new MockTransport();
+		document.body.innerHTML = '<button id="button" data-request="onSave"></button>';
+	});
+
+	const send = (concurrency?: ConcurrencyMode) => new WinterRequestExtras('#button', undefined, { transport, concurrency }).send();
+
+	it('sends requests in parallel by default', async () => {
+		transport.on('onSave', Object.assign(partialsResponse({}, 'first'), { delay: 20 }));
+		transport.on('onSave', partialsResponse({}, 'second'));
+
+		const results = await Promise.all([send(), send()]);
+
+		expect(results).toMatchObject([{ data: { result: 'first' } }, { data: { result: 'second' } }]);
+	});
+
+	it('cancels the previous request with abort-previous', async () => {
+		transport.on('onSave', Object.assign(partialsResponse({}, 'first'), { delay: 50 }));
+		transport.on('onSave', partialsResponse({}, 'second'));
+
+		const [first, second] = await Promise.all([send('abort-previous'), send('abort-previous')]);
+
+		expect(first).toBeUndefined();
+		expect(second).toMatchObject({ data: { result: 'second' } });
+	});
+
+	it('sends requests one at a time with queue', async () => {
+		const order: Array<string> = [];
+
+		transport.on('onSave', () => {
+			order.push('first sent');
+			return Object.assign(partialsResponse({}, 'first'), { delay: 20 });
+		});
+		transport.on('onSave', () => {
+			order.push('second sent');
+			return partialsResponse({}, 'second');
+		});
+
+		const first = send('queue').then((response) => order.push('first done') && response);
+		const second = send('queue');
+
+		expect(await Promise.all([first, second])).toMatchObject([{ data: { result: 'first' } }, { data: { result: 'second' } }]);
+		expect(order).toEqual(['first sent', 'first done', 'second sent']);
+	});
+
+	it('drops new requests while one is pending with ignore-while-pending', async () => {
+		transport.on('onSave', Object.assign(partialsResponse({}, 'first'), { delay: 20 }));
+
+		const [first, second] = await Promise.all([send('ignore-while-pending'), send('ignore-while-pending')]);
+
+		expect(first).toMatchObject({ data: { result: 'first' } });
+		expect(second).toBeUndefined();
+		expect(transport.requests).toHaveLength(1);
+	});
+});
@@ -0,0 +1,151 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WinterRequestExtras, showConfirmDialog } from '../src';
+import { MockTransport, assertNoRequestSent, assertRequestSent } from '../src/testing';
+
+const flush = () => new Promise((resolve) => setTimeout(resolve));
+
+const getDialog = () => document.querySelector<HTMLDialogElement>('dialog.winter-confirm');
+
+const click = (selector: string) => getDialog().querySelector<HTMLElement>(selector).click();
+
+describe('confirm dialog', () => {
+	it('falls back to window.confirm() without <dialog> support', async () => {
+		const confirm = vi.spyOn(window, 'confirm').mockImplementation(() => true);
+
+		expect(await showConfirmDialog({ message: 'Delete this?' })).toBe(true);
+		expect(confirm).toHaveBeenCalledWith('Delete this?');
+	});
+
+	describe('with <dialog> support', () => {
+		// jsdom does not implement the modal methods of <dialog>
+		beforeAll(() => {
+			HTMLDialogElement.prototype.showModal = function () { this.open = true; };
+			HTMLDialogElement.prototype.close = function () { this.open = false; };
+		});
+
+		afterAll(() => {
+			delete HTMLDialogElement.prototype.showModal;
+			delete HTMLDialogElement.prototype.close;
+		});
+
+		beforeEach(() => {
+			document.body.innerHTML = '<button id="delete" data-request="onDelete">Delete</button>';
+		});
+
+		it('displays the message, title and button labels', async () => {
+			const promise = showConfirmDialog({ message: 'Delete this?', title: 'Delete', ok: 'Yes', cancel: 'No' });
+			const dialog = getDialog();
+
+			expect(dialog.open).toBe(true);
+			expect(dialog.getAttribute('role')).toBe('alertdialog');
+			expect(dialog.querySelector('[data-confirm-title]').textContent).toBe('Delete');
+			expect(dialog.querySelector('[data-confirm-message]').textContent).toBe('Delete this?');
+			expect(dialog.querySelector('[data-confirm-ok]').textContent).toBe('Yes');
+			expect(dialog.querySelector('[data-confirm-cancel]').textContent).toBe('No');
+			expect(dialog.getAttribute('aria-labelledby')).toBe(dialog.querySelector('[data-confirm-title]').id);
+
+			click('[data-confirm-ok]');
+
+			expect(await promise).toBe(true);
+		});
+
+		it('labels the dialog with the message if it has no title', () => {
+			showConfirmDialog({ message: 'Delete this?' });
+
+			expect(getDialog().getAttribute('aria-label')).toBe('Delete this?');
+			expect(getDialog().querySelector<HTMLElement>('[data-confirm-title]').hidden).toBe(true);
+
+			click('[data-confirm-cancel]');
+		});
+
+		it('resolves false when cancelled, and removes the dialog', async () => {
+			const promise = showConfirmDialog({ message: 'Delete this?' });
+
+			click('[data-confirm-cancel]');
+
+			expect(await promise).toBe(false);
+			expect(getDialog()).toBeNull();
+		});
+
+		it('resolves false when the escape key is pressed', async () => {
+			const promise = showConfirmDialog({ message: 'Delete this?' });
+
+			getDialog().dispatchEvent(new Event('cancel', { cancelable: true }));
+
+			expect(await promise).toBe(false);
+		});
+
+		it('moves focus into the dialog, keeps it there, and restores it', async () => {
+			const trigger = document.querySelector<HTMLElement>('#delete');
+			trigger.focus();
+
+			const promise = showConfirmDialog({ message: 'Delete this?' });
+			const dialog = getDialog();
+			const cancel = dialog.querySelector<HTMLElement>('[data-confirm-cancel]');
+			const ok = dialog.querySelector<HTMLElement>('[data-confirm-ok]');
+
+			expect(document.activeElement).toBe(cancel);
+
+			ok.focus();
+			dialog.dispatchEvent(new KeyboardEvent('keydown', { key: 'Tab', bubbles: true }));
+			expect(document.activeElement).toBe(cancel);
+
+			dialog.dispatchEvent(new KeyboardEvent('keydown', { key: 'Tab', shiftKey: true, bubbles: true }));
+			expect(document.activeElement).toBe(ok);
+
+			click('[data-confirm-ok]');
+			await promise;
+
+			expect(document.activeElement).toBe(trigger);
+		});
+
+		it('uses a template', async () => {
+			document.body.insertAdjacentHTML('beforeend', `
+				<template id="confirm-template">
+					<dialog class="custom"><p data-confirm-message></p><button data-confirm-ok></button></dialog>
+				</template>
+			`);
+
+			const promise = showConfirmDialog({ message: 'Delete this?', template: '#confirm-template' });
+
+			expect(getDialog().classList.contains('custom')).toBe(true);
+			expect(getDialog().querySelector('[data-confirm-message]').textContent).toBe('Delete this?');
+
+			click('[data-confirm-ok]');
+
+			expect(await promise).toBe(true);
+		});
+
+		it('asks for confirmation before sending requests with the confirm option', async () => {
+			const transport = new MockTransport();
+			transport.on('onDelete', { data: {} });
+
+			const cancelled = new WinterRequestExtras('#delete', undefined, { transport, confirm: 'Delete this?' }).send();
+			await flush();
+			click('[data-confirm-cancel]');
+			await cancelled;
+
+			assertNoRequestSent(transport, 'onDelete');
+
+			const confirmed = new WinterRequestExtras('#delete', undefined, { transport, confirm: 'Delete this?' }).send();
+			await flush();
+			click('[data-confirm-ok]');
+			await confirmed;
+
+			assertRequestSent(transport, 'onDelete');
+		});
+
+		it('lets ajaxConfirmMessage listeners respond instead', async () => {
+			const transport = new MockTransport();
+			transport.on('onDelete', { data: {} });
+
+			const listener = (ev: CustomEvent) => ev.detail.respondWith(Promise.resolve(true));
+			window.addEventListener('ajaxConfirmMessage', listener, { once: true });
+
+			await new WinterRequestExtras('#delete', undefined, { transport, confirm: 'Delete this?' }).send();
+
+			expect(getDialog()).toBeNull();
+			assertRequestSent(transport, 'onDelete');
+		});
+	});
+});
@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { WinterRequestExtras } from '../src';
+import { MockTransport, partialsResponse } from '../src/testing';
+
+/**
+ * Scripts run in the jsdom window rather than the test's global scope, so they record that they ran on the document.
+ */
+const script = (name: string) => `<script>document.body.dataset.ran = (document.body.dataset.ran || "") + "${name},"</script>`;
+const ran = () => (document.body.dataset.ran || '').split(',').filter((name) => name);
+
+describe('executeScripts', () => {
+	beforeEach(() => {
+		delete document.body.dataset.ran;
+		document.head.innerHTML = '';
+		document.body.innerHTML = '<form id="form" data-request="onUpdate"></form><div id="target"></div>';
+	});
+
+	const send = (html: string, options = {}) => {
+		const transport = new MockTransport().on('onUpdate', partialsResponse({ '#target': html }));
+
+		return new WinterRequestExtras('#form', undefined, Object.assign({ transport, assetsTimeout: 50 }, options)).send();
+	};
+
+	it('does not run scripts by default', async () => {
+		await send(script('inline'));
+
+		expect(ran()).toEqual([]);
+	});
+
+	it('runs inline scripts in document order', async () => {
+		await send(`${script('first')}<div>${script('second')}</div><script type="text/template">document.body.dataset.ran = "template"</script>`, { executeScripts: true });
+
+		expect(ran()).toEqual(['first', 'second']);
+	});
+
+	it('sets the CSP nonce from the meta element', async () => {
+		document.head.innerHTML = '<meta name="csp-nonce" content="abc123">';
+
+		await send(script('nonce'), { executeScripts: true });
+
+		expect(document.querySelector<HTMLScriptElement>('#target script').nonce).toBe('abc123');
+		expect(ran()).toEqual(['nonce']);
+	});
+
+	it('reports scripts that throw, and keeps running the others', async () => {
+		const onError = vi.fn();
+		document.querySelector('#target').addEventListener('ajaxScriptError', onError);
+		window.addEventListener('error', (ev) => ev.preventDefault(), { once: true });
+
+		await send(`<script>throw new Error("Broken")</script>${script('after')}`, { executeScripts: true });
+
+		expect(onError).toHaveBeenCalledTimes(1);
+		expect(onError.mock.calls[0][0].detail.error.message).toBe('Broken');
+		expect(ran()).toEqual(['after']);
+	});
+
+	it('times out external scripts that never load', async () => {
+		const onError = vi.fn();
+		document.querySelector('#target').addEventListener('ajaxScriptError', onError);
+
+		await send(`<script src="/js/never.js"></script>${script('after')}`, { executeScripts: true });
+
+		expect(onError.mock.calls[0][0].detail.error.message).toBe('Timed out loading "https://example.test/js/never.js".');
+		expect(ran()).toEqual(['after']);
+	});
+
+	it('skips external scripts that are already on the page', async () => {
+		document.head.innerHTML = '<script src="/js/page.js"></script>';
+
+		await send('<script src="/js/page.js"></script>', { executeScripts: true });
+
+		expect(document.querySelectorAll('script[src]')).toHaveLength(1);
+	});
+});
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WinterRequestExtras } from '../src';
+import { MockTransport, assertRequestSent, partialsResponse, validationResponse } from '../src/testing';
+
+describe('WinterRequestExtras', () => {
+	let transport: MockTransport;
+
+	beforeEach(() => {
+		vi.spyOn(window, 'alert').mockImplementation(() => undefined);
+
+		transport = new MockTransport();
+		document.body.innerHTML = `
+			<form id="form" data-request="onSave">
+				<input name="name" value="Winter">
+				<input name="tags[]" value="a" type="checkbox" checked>
+				<input name="tags[]" value="b" type="checkbox" checked>
+				<button type="submit">Save</button>
+			</form>
+			<div id="target">Old</div>
+		`;
+	});
+
+	afterEach(() => {
+		document.body.innerHTML = '';
+	});
+
+	it('sends the handler and the form fields of the element', async () => {
+		transport.on('onSave', partialsResponse({}));
+
+		await new WinterRequestExtras('#form', undefined, { transport }).send();
+
+		assertRequestSent(transport, 'onSave', { data: { name: 'Winter', 'tags[]': ['a', 'b'] } });
+	});
+
+	it('merges data-request-data attributes into the payload', async () => {
+		transport.on('onSave', partialsResponse({}));
+		document.querySelector('#form').setAttribute('data-request-data', 'page: 2');
+
+		await new WinterRequestExtras('#form', undefined, { transport }).send();
+
+		assertRequestSent(transport, 'onSave', { data: { name: 'Winter', page: '2' } });
+	});
+
+	it('keeps the defaults for data-request-* attributes that are not set', async () => {
+		transport.on('onSave', partialsResponse({}));
+
+		const onConfirmMessage = vi.fn(async () => true);
+		const request = new WinterRequestExtras('#form', undefined, { transport, onConfirmMessage });
+
+		expect(request.options.confirm).toBe(false);
+		expect(request.options.concurrency).toBe('parallel');
+
+		await request.send();
+
+		expect(onConfirmMessage).not.toHaveBeenCalled();
+		assertRequestSent(transport, 'onSave');
+	});
+
+	it('reads options from data-request-* attributes', async () => {
+		const form = document.querySelector('#form');
+
+		form.setAttribute('data-request-confirm', 'Are you sure?');
+		form.setAttribute('data-request-flash', 'true');
+
+		const request = new WinterRequestExtras('#form', undefined, { transport });
+
+		expect(request.options.confirm).toBe('Are you sure?');
+		expect(request.options.flash).toBe(true);
+	});
+
+	it('updates partials and triggers ajaxUpdate', async () => {
+		transport.on('onSave', partialsResponse({ myPartial: '<p>New</p>' }));
+
+		const onUpdate = vi.fn();
+		document.querySelector('#target').addEventListener('ajaxUpdate', onUpdate);
+
+		await new WinterRequestExtras('#form', undefined, { transport, update: { myPartial: '#target' } }).send();
+
+		assertRequestSent(transport, 'onSave', { partials: ['myPartial'] });
+		expect(document.querySelector('#target').innerHTML).toBe('<p>New</p>');
+		expect(onUpdate).toHaveBeenCalledTimes(1);
+	});
+
+	it('triggers ajaxSetup and ajaxDone on the form', async () => {
+		transport.on('onSave', partialsResponse({}, 'ok'));
+
+		const events: Array<string> = [];
+		const form = document.querySelector('#form');
+
+		form.addEventListener('ajaxSetup', () => events.push('ajaxSetup'));
+		form.addEventListener('ajaxDone', () => events.push('ajaxDone'));
+
+		await new WinterRequestExtras(form as HTMLElement, undefined, { transport }).send();
+
+		expect(events).toEqual(['ajaxSetup', 'ajaxDone']);
+	});
+
+	it('passes validation messages to onValidationMessage', async () => {
+		transport.on('onSave', validationResponse({ name: ['The name field is required.'] }));
+
+		const onValidationMessage = vi.fn();
+
+		await new WinterRequestExtras('#form', undefined, { transport, onValidationMessage }).send();
+
+		expect(onValidationMessage).toHaveBeenCalledWith('The name field is required.', { name: ['The name field is required.'] });
+	});
+});
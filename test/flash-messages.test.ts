@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WinterRequestExtras, createFlashMessageRenderer, renderFlashMessage } from '../src';
+import { MockTransport, assertRequestSent } from '../src/testing';
+
+describe('flash messages', () => {
+	beforeEach(() => {
+		document.body.innerHTML = `
+			<form id="form" data-request="onSave" data-request-flash="true" data-request-flash-container="#flash"></form>
+			<div id="flash"></div>
+			<template id="flash-template"><p class="custom"><strong data-flash-message-text></strong><a data-flash-message-close>Close</a></p></template>
+		`;
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('renders the flash messages of the response in the container', async () => {
+		const transport = new MockTransport().on('onSave', { data: { X_WINTER_FLASH_MESSAGES: { success: 'Saved.', warning: ['First', 'Second'] } } });
+
+		await new WinterRequestExtras('#form', undefined, { transport }).send();
+
+		assertRequestSent(transport, 'onSave', { flash: true });
+
+		const container = document.querySelector('#flash');
+		const messages = Array.from(container.querySelectorAll('[data-flash-message]'));
+
+		expect(container.getAttribute('aria-live')).toBe('polite');
+		expect(messages.map((message) => [message.getAttribute('data-flash-message'), message.querySelector('[data-flash-message-text]').textContent])).toEqual([
+			['success', 'Saved.'],
+			['warning', 'First'],
+			['warning', 'Second'],
+		]);
+		expect(messages[0].getAttribute('role')).toBe('status');
+	});
+
+	it('sets the message as text', () => {
+		const message = renderFlashMessage('<img src=x onerror=alert(1)>', 'error', { container: '#flash' });
+
+		expect(message.querySelector('img')).toBeNull();
+		expect(message.textContent).toContain('<img src=x onerror=alert(1)>');
+		expect(message.getAttribute('role')).toBe('alert');
+	});
+
+	it('dismisses messages when closed, after the timeout, or when over the limit', () => {
+		vi.useFakeTimers();
+
+		const closed = renderFlashMessage('Closed', 'error', { container: '#flash' });
+		closed.querySelector<HTMLElement>('[data-flash-message-close]').click();
+		expect(closed.isConnected).toBe(false);
+
+		const timed = renderFlashMessage('Timed', 'info', { container: '#flash', timeout: 1000 });
+		vi.advanceTimersByTime(1000);
+		expect(timed.isConnected).toBe(false);
+
+		const messages = ['1', '2', '3'].map((text) => renderFlashMessage(text, 'error', { container: '#flash', limit: 2 }));
+		expect(messages.map((message) => message.isConnected)).toEqual([false, true, true]);
+	});
+
+	it('renders messages from a template', async () => {
+		const onFlashMessage = createFlashMessageRenderer({ container: '#flash', templates: { default: '#flash-template' } });
+
+		await onFlashMessage('From template', 'info');
+
+		const message = document.querySelector('#flash .custom');
+
+		expect(message.querySelector('strong').textContent).toBe('From template');
+		message.querySelector<HTMLElement>('[data-flash-message-close]').click();
+		expect(message.isConnected).toBe(false);
+	});
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WinterRequestExtras, listenForHistory, watch } from '../src';
+import { MockTransport } from '../src/testing';
+import { FetchTransport } from '../src/transports';
+
+describe('history', () => {
+	let transport: MockTransport;
+	let dispose: () => void;
+
+	const send = (query: string, pushState: true | string = true) => {
+		transport.reset();
+		transport.on('onFilter', { data: { results: `<p>${query}</p>` } });
+
+		return new WinterRequestExtras('#filter', undefined, {
+			transport,
+			pushState,
+			update: { results: '#results' },
+			data: { q: query, _token: 'secret' },
+		}).send();
+	};
+
+	const popState = (state: unknown) => window.dispatchEvent(new PopStateEvent('popstate', { state }));
+
+	const flush = () => new Promise((resolve) => setTimeout(resolve));
+
+	beforeEach(() => {
+		history.replaceState(null, '', '/page');
+		transport = new MockTransport();
+		document.body.innerHTML = '<form id="filter" data-request="onFilter"></form><div id="results"></div>';
+	});
+
+	afterEach(() => {
+		if (dispose) dispose();
+		dispose = undefined;
+	});
+
+	it('pushes the request data as the query string, without the keys starting with _', async () => {
+		await send('winter');
+
+		expect(window.location.pathname + window.location.search).toBe('/page?q=winter');
+		expect(history.state.winterRequest.handler).toBe('onFilter');
+		expect(history.state.winterRequest.data).toEqual({ q: 'winter' });
+	});
+
+	it('pushes the given URL', async () => {
+		await send('winter', '/search/winter');
+
+		expect(window.location.pathname).toBe('/search/winter');
+	});
+
+	it('marks the entry the page was loaded with', async () => {
+		const replaceState = vi.spyOn(history, 'replaceState');
+
+		await send('winter');
+
+		expect(replaceState).toHaveBeenCalledWith({ winterInitial: true }, '');
+	});
+
+	it('restores the partials of an entry from the cached response', async () => {
+		dispose = listenForHistory();
+
+		await send('first');
+		const first = history.state;
+		await send('second');
+
+		expect(document.querySelector('#results').innerHTML).toBe('<p>second</p>');
+
+		popState(first);
+		await flush();
+
+		expect(document.querySelector('#results').innerHTML).toBe('<p>first</p>');
+		expect(transport.requests).toHaveLength(1);
+	});
+
+	it('sends the request again for entries that are not cached', async () => {
+		dispose = listenForHistory();
+		transport.on('onFilter', { data: { results: '<p>restored</p>' } });
+
+		// Uncached entries are restored with the default options
+		vi.spyOn(FetchTransport.prototype, 'send').mockImplementation((request) => transport.send(request));
+
+		popState({ winterRequest: { id: 'unknown', handler: 'onFilter', data: { q: 'old' }, json: false, update: { results: '#results' }, updateMode: 'replace' } });
+		await flush();
+
+		expect(transport.lastRequest('onFilter')).toBeTruthy();
+		expect(document.querySelector('#results').innerHTML).toBe('<p>restored</p>');
+	});
+
+	it('lets ajaxHistoryRestore listeners restore the entry themselves', async () => {
+		dispose = listenForHistory();
+
+		await send('first');
+		const first = history.state;
+		await send('second');
+
+		const listener = vi.fn((ev: Event) => ev.preventDefault());
+		window.addEventListener('ajaxHistoryRestore', listener, { once: true });
+
+		popState(first);
+		await flush();
+
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(document.querySelector('#results').innerHTML).toBe('<p>second</p>');
+	});
+
+	it('stops restoring entries once the listener is removed', async () => {
+		dispose = watch({ history: true, replayQueue: false, poll: false, lazy: false, changeMonitor: false });
+
+		await send('first');
+		const first = history.state;
+		await send('second');
+		dispose();
+
+		popState(first);
+		await flush();
+
+		expect(document.querySelector('#results').innerHTML).toBe('<p>second</p>');
+	});
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WinterRequestExtras } from '../src';
+import { MockTransport } from '../src/testing';
+
+describe('asset injection', () => {
+	let transport: MockTransport;
+	let observer: MutationObserver;
+
+	beforeEach(() => {
+		transport = new MockTransport();
+		document.head.innerHTML = '';
+		document.body.innerHTML = '<form id="form" data-request="onLoad"></form><div id="target"></div>';
+
+		// jsdom doesn't load resources, so assets load unless their URL contains "missing", which fails, or "slow",
+		// which never loads
+		observer = new MutationObserver((mutations) => {
+			for (const mutation of mutations) {
+				mutation.addedNodes.forEach((node) => {
+					const url = node instanceof HTMLLinkElement ? node.href : node instanceof HTMLScriptElement ? node.src : null;
+
+					if (!url || url.includes('slow')) return;
+
+					setTimeout(() => node.dispatchEvent(new Event(url.includes('missing') ? 'error' : 'load')));
+				});
+			}
+		});
+		observer.observe(document, { childList: true, subtree: true });
+	});
+
+	afterEach(() => {
+		observer.disconnect();
+	});
+
+	const send = (assets: Record<string, Array<string>>, options = {}) => {
+		transport.on('onLoad', { data: { X_WINTER_ASSETS: assets, '#target': '<p>Updated</p>' } });
+
+		return new WinterRequestExtras('#form', undefined, Object.assign({ transport, assetsTimeout: 50 }, options)).send();
+	};
+
+	it('loads stylesheets and scripts before updating the partials', async () => {
+		let contentWhenLoaded: string;
+		const onLoaded = vi.fn(() => contentWhenLoaded = document.querySelector('#target').innerHTML);
+		document.querySelector('#form').addEventListener('ajaxAssetsLoaded', onLoaded);
+
+		await send({ css: ['/css/a.css'], js: ['/js/a.js', '/js/b.js'] });
+
+		expect(onLoaded).toHaveBeenCalledTimes(1);
+		expect(contentWhenLoaded).toBe('');
+		expect(Array.from(document.querySelectorAll('link'), (link) => link.getAttribute('href'))).toEqual(['https://example.test/css/a.css']);
+		expect(Array.from(document.querySelectorAll('script'), (script) => script.getAttribute('src'))).toEqual(['https://example.test/js/a.js', 'https://example.test/js/b.js']);
+		expect(document.querySelector('#target').innerHTML).toBe('<p>Updated</p>');
+	});
+
+	it('skips assets that are already on the page', async () => {
+		document.head.innerHTML = '<link rel="stylesheet" href="/css/page.css"><script src="/js/page.js"></script>';
+
+		await send({ css: ['/css/page.css'], js: ['/js/page.js', '/js/new.js'] });
+
+		expect(document.querySelectorAll('link')).toHaveLength(1);
+		expect(Array.from(document.querySelectorAll('script'), (script) => script.src)).toEqual(['https://example.test/js/page.js', 'https://example.test/js/new.js']);
+	});
+
+	it('keeps loading the remaining scripts when one fails, and reports the failures together', async () => {
+		const onError = vi.fn();
+		document.querySelector('#form').addEventListener('ajaxAssetsError', onError);
+
+		await send({ js: ['/js/missing.js', '/js/slow.js', '/js/after.js'] });
+
+		expect(document.querySelectorAll('script')).toHaveLength(3);
+		expect(onError).toHaveBeenCalledTimes(1);
+
+		const { error, errors } = onError.mock.calls[0][0].detail;
+
+		expect(errors.map((e: Error) => e.message)).toEqual([
+			'Failed to load script "https://example.test/js/missing.js".',
+			'Timed out loading "https://example.test/js/slow.js".',
+		]);
+		expect(error).toBe(errors[0]);
+		expect(document.querySelector('#target').innerHTML).toBe('<p>Updated</p>');
+	});
+});
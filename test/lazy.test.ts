@@ -0,0 +1,126 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { observeLazy, unobserveLazy, watch } from '../src';
+import { MockTransport } from '../src/testing';
+
+/**
+ * Records the observed elements, as jsdom does not implement IntersectionObserver.
+ */
+class FakeIntersectionObserver {
+	static instances: Array<FakeIntersectionObserver> = [];
+
+	elements = new Set<Element>();
+
+	constructor(public callback: IntersectionObserverCallback, public options: IntersectionObserverInit) {
+		FakeIntersectionObserver.instances.push(this);
+	}
+
+	observe(element: Element) {
+		this.elements.add(element);
+	}
+
+	unobserve(element: Element) {
+		this.elements.delete(element);
+	}
+
+	disconnect() {
+		this.elements.clear();
+	}
+}
+
+/**
+ * Scrolls an element into view, notifying the observers that observe it.
+ *
+ * @param element The element.
+ */
+function intersect(element: Element) {
+	FakeIntersectionObserver.instances
+		.filter((observer) => observer.elements.has(element))
+		.forEach((observer) => observer.callback([{ target: element, isIntersecting: true } as IntersectionObserverEntry], observer as unknown as IntersectionObserver));
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve));
+
+describe('lazy loading', () => {
+	let transport: MockTransport;
+	let dispose: () => void;
+
+	beforeAll(() => {
+		window.IntersectionObserver = FakeIntersectionObserver as unknown as typeof IntersectionObserver;
+	});
+
+	beforeEach(() => {
+		transport = new MockTransport();
+		transport.on('onReviews', { data: { reviews: '<section id="reviews">Reviews</section>' } });
+		document.body.innerHTML = '<div id="placeholder" data-request="onReviews" data-request-update="reviews: \'=this\'" data-request-lazy></div>';
+	});
+
+	afterEach(() => {
+		if (dispose) dispose();
+		dispose = undefined;
+	});
+
+	it('sends the request once the element scrolls into view, and replaces the placeholder', async () => {
+		const placeholder = document.querySelector('#placeholder');
+
+		observeLazy(placeholder as HTMLElement, undefined, { transport });
+		expect(transport.requests).toHaveLength(0);
+
+		intersect(placeholder);
+		await flush();
+
+		expect(transport.requests).toHaveLength(1);
+		expect(document.querySelector('#placeholder')).toBeNull();
+		expect(document.querySelector('#reviews').textContent).toBe('Reviews');
+	});
+
+	it('only sends the request once', async () => {
+		const placeholder = document.querySelector('#placeholder');
+
+		observeLazy(placeholder as HTMLElement, undefined, { transport, update: {} });
+		intersect(placeholder);
+		intersect(placeholder);
+		await flush();
+
+		expect(transport.requests).toHaveLength(1);
+	});
+
+	it('does not send the request once the element is unobserved', async () => {
+		const placeholder = document.querySelector<HTMLElement>('#placeholder');
+
+		observeLazy(placeholder, undefined, { transport });
+		unobserveLazy(placeholder);
+		intersect(placeholder);
+		await flush();
+
+		expect(transport.requests).toHaveLength(0);
+	});
+
+	it('shares an observer per root margin', () => {
+		const first = document.createElement('div');
+		const second = document.createElement('div');
+		first.dataset.request = second.dataset.request = 'onReviews';
+
+		observeLazy(first, '200px', { transport });
+		observeLazy(second, '200px', { transport });
+
+		const observers = FakeIntersectionObserver.instances.filter((observer) => observer.options.rootMargin === '200px');
+
+		expect(observers).toHaveLength(1);
+		expect(Array.from(observers[0].elements)).toEqual([first, second]);
+	});
+
+	it('observes data-request-lazy elements with watch(), using its root margin', async () => {
+		document.querySelector('#placeholder').setAttribute('data-request-lazy', '300px');
+		dispose = watch({ requestOptions: { transport }, history: false, replayQueue: false });
+
+		const placeholder = document.querySelector('#placeholder');
+		const observer = FakeIntersectionObserver.instances.find((instance) => instance.elements.has(placeholder));
+
+		expect(observer.options.rootMargin).toBe('300px');
+
+		intersect(placeholder);
+		await flush();
+
+		expect(document.querySelector('#reviews')).not.toBeNull();
+	});
+});
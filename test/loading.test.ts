@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WinterRequestExtras, enableLoadingStripe, getInFlightCount } from '../src';
+import { MockTransport } from '../src/testing';
+
+describe('loading state', () => {
+	let transport: MockTransport;
+
+	beforeEach(() => {
+		transport = new MockTransport();
+		transport.on('onSave', { data: {}, delay: 20 });
+		document.body.innerHTML = `
+			<form id="form" data-attach-loading>
+				<button id="save" type="submit" data-request="onSave">Save</button>
+				<button id="other" type="submit" disabled>Other</button>
+			</form>
+		`;
+	});
+
+	const send = (options = {}) => new WinterRequestExtras('#save', 'onSave', Object.assign({ transport }, options)).send();
+
+	it('puts data-attach-loading forms into the loading state while the request is in flight', async () => {
+		const form = document.querySelector('#form');
+		const save = document.querySelector<HTMLButtonElement>('#save');
+		const other = document.querySelector<HTMLButtonElement>('#other');
+
+		const promise = send();
+		await vi.waitFor(() => expect(transport.requests).toHaveLength(1), { interval: 1 });
+
+		expect(form.classList.contains('wn-loading')).toBe(true);
+		expect(form.getAttribute('aria-busy')).toBe('true');
+		expect(save.disabled).toBe(true);
+
+		await promise;
+
+		expect(form.classList.contains('wn-loading')).toBe(false);
+		expect(form.hasAttribute('aria-busy')).toBe(false);
+		expect(save.disabled).toBe(false);
+		expect(other.disabled).toBe(true);
+	});
+
+	it('keeps the loading state until every parallel request has completed', async () => {
+		const form = document.querySelector('#form');
+
+		const first = send({ loadingClass: 'busy' });
+		transport.on('onSave', { data: {}, delay: 60 });
+		const second = send({ loadingClass: 'busy' });
+
+		await first;
+		expect(form.classList.contains('busy')).toBe(true);
+
+		await second;
+		expect(form.classList.contains('busy')).toBe(false);
+	});
+
+	it('counts the requests in flight', async () => {
+		const promise = send();
+		await vi.waitFor(() => expect(transport.requests).toHaveLength(1), { interval: 1 });
+
+		expect(getInFlightCount()).toBe(1);
+
+		await promise;
+
+		expect(getInFlightCount()).toBe(0);
+	});
+
+	it('restores the loading state when the request fails', async () => {
+		transport.reset();
+		transport.on('onSave', { status: 500, data: {} });
+		vi.spyOn(window, 'alert').mockImplementation(() => undefined);
+
+		const failed = vi.fn();
+		document.addEventListener('ajaxFail', failed, { once: true });
+
+		await send();
+
+		expect(failed).toHaveBeenCalled();
+		expect(document.querySelector('#form').hasAttribute('aria-busy')).toBe(false);
+		expect(getInFlightCount()).toBe(0);
+	});
+
+	describe('loading stripe', () => {
+		let dispose: () => void;
+
+		afterEach(() => {
+			dispose();
+			vi.useRealTimers();
+		});
+
+		it('shows the stripe after the delay while a request is in flight', async () => {
+			vi.useFakeTimers();
+			dispose = enableLoadingStripe({ delay: 100 });
+			transport.reset();
+			transport.on('onSave', { data: {}, delay: 200 });
+
+			const stripe = document.querySelector<HTMLElement>('.stripe-loading-indicator');
+			const promise = send();
+
+			await vi.advanceTimersByTimeAsync(50);
+			expect(stripe.hidden).toBe(true);
+
+			await vi.advanceTimersByTimeAsync(100);
+			expect(stripe.hidden).toBe(false);
+
+			await vi.advanceTimersByTimeAsync(100);
+			await promise;
+			expect(stripe.classList.contains('loaded')).toBe(true);
+
+			await vi.advanceTimersByTimeAsync(600);
+			expect(stripe.hidden).toBe(true);
+		});
+
+		it('does not show the stripe for requests that complete within the delay', async () => {
+			vi.useFakeTimers();
+			dispose = enableLoadingStripe({ delay: 100 });
+
+			const stripe = document.querySelector<HTMLElement>('.stripe-loading-indicator');
+			const promise = send();
+
+			await vi.advanceTimersByTimeAsync(50);
+			await promise;
+			await vi.advanceTimersByTimeAsync(200);
+
+			expect(stripe.hidden).toBe(true);
+		});
+
+		it('removes the stripe and its styles when disabled', () => {
+			dispose = enableLoadingStripe();
+			dispose();
+			dispose = () => undefined;
+
+			expect(document.querySelector('.stripe-loading-indicator')).toBeNull();
+			expect(document.head.querySelector('style')).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TransportError, WinterRequest, WinterRequestExtras } from '../src';
+import { MockTransport, assertRequestSent, errorResponse, partialsResponse } from '../src/testing';
+import { Middleware } from '../src/request/types';
+
+describe('middleware', () => {
+	const send = (transport: MockTransport, middleware: Array<Middleware<WinterRequest>>, options = {}) => {
+		return new WinterRequest('onSave', Object.assign({ transport, middleware }, options)).send();
+	};
+
+	it('runs middleware around sending the request', async () => {
+		const transport = new MockTransport().on('onSave', partialsResponse({}));
+		const calls: Array<string> = [];
+
+		await send(transport, [
+			async (context, next) => {
+				calls.push(`before ${context.handler}`);
+				context.config.headers['X-CUSTOM'] = 'yes';
+				await next();
+				calls.push(`after ${context.response.status}`);
+			},
+		]);
+
+		expect(calls).toEqual(['before onSave', 'after 200']);
+		assertRequestSent(transport, 'onSave', { headers: { 'X-CUSTOM': 'yes' } });
+	});
+
+	it('runs global middleware first, in the order it was added', async () => {
+		const transport = new MockTransport().on('onSave', partialsResponse({}));
+		const calls: Array<string> = [];
+		const record = (name: string): Middleware<WinterRequest> => async (context, next) => {
+			calls.push(`${name} in`);
+			await next();
+			calls.push(`${name} out`);
+		};
+
+		const removeFirst = WinterRequest.use(record('first'));
+		const removeSecond = WinterRequest.use(record('second'));
+
+		try {
+			await send(transport, [record('local')]);
+		} finally {
+			removeFirst();
+			removeSecond();
+		}
+
+		expect(calls).toEqual(['first in', 'second in', 'local in', 'local out', 'second out', 'first out']);
+
+		calls.length = 0;
+		await send(transport, []);
+
+		expect(calls).toEqual([]);
+	});
+
+	it('lets middleware rewrite the response', async () => {
+		const transport = new MockTransport().on('onSave', partialsResponse({}, 'original'));
+		const onSuccess = vi.fn();
+
+		await send(transport, [
+			async (context, next) => {
+				await next();
+				context.response = Object.assign({}, context.response, { data: { result: 'rewritten' } });
+			},
+		], { onSuccess });
+
+		expect(onSuccess.mock.calls[0][0].data).toEqual({ result: 'rewritten' });
+	});
+
+	it('exposes the error, and lets middleware recover from it', async () => {
+		const transport = new MockTransport().on('onSave', errorResponse('Something went wrong'));
+		const onError = vi.fn();
+		const onSuccess = vi.fn();
+		let error: unknown;
+
+		await send(transport, [
+			async (context, next) => {
+				try {
+					await next();
+				} catch (e) {
+					error = context.error;
+					context.response = { data: { result: 'recovered' }, status: 200, statusText: '', headers: {} };
+				}
+			},
+		], { onError, onSuccess });
+
+		expect(error).toBeInstanceOf(TransportError);
+		expect(onError).not.toHaveBeenCalled();
+		expect(onSuccess.mock.calls[0][0].data).toEqual({ result: 'recovered' });
+	});
+
+	it('rejects middleware that calls next() more than once', async () => {
+		const transport = new MockTransport().on('onSave', partialsResponse({}));
+		const onError = vi.fn();
+
+		await send(transport, [
+			async (context, next) => {
+				await next();
+				await next();
+			},
+		], { onError });
+
+		expect(onError.mock.calls[0][0].message).toBe('next() was called multiple times by the same middleware');
+	});
+
+	it('calls the ajaxSetup handler after the other middleware', async () => {
+		document.body.innerHTML = '<button id="button" data-request="onSave"></button>';
+
+		const transport = new MockTransport().on('onSave', partialsResponse({}));
+		const calls: Array<string> = [];
+
+		await new WinterRequestExtras('#button', undefined, {
+			transport,
+			middleware: [async (context, next) => {
+				calls.push('middleware');
+				await next();
+			}],
+			ajaxHandlers: {
+				ajaxSetup: async (config) => {
+					calls.push('ajaxSetup');
+					return config;
+				},
+			},
+		}).send();
+
+		expect(calls).toEqual(['middleware', 'ajaxSetup']);
+	});
+});
@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { WinterRequestExtras } from '../src';
+import { morph } from '../src/extras/utils/morph';
+import { MockTransport, partialsResponse } from '../src/testing';
+
+describe('morph', () => {
+	beforeEach(() => {
+		document.body.innerHTML = `
+			<form id="form" data-request="onRefresh"></form>
+			<ul id="list"><li id="a">A</li><li data-key="b"><input name="b" value="typed"></li><li><details open><summary>C</summary></details></li></ul>
+		`;
+	});
+
+	it('patches the existing elements instead of replacing them', async () => {
+		const a = document.querySelector('#a');
+		const b = document.querySelector('[data-key=b]');
+		const details = document.querySelector('details');
+		const transport = new MockTransport().on('onRefresh', partialsResponse({
+			'#list': '<li data-key="b"><input name="b" value="server"></li><li id="a" class="done">A2</li><li><details><summary>C2</summary></details></li><li id="d">D</li>',
+		}));
+
+		await new WinterRequestExtras('#form', undefined, { transport, updateMode: 'morph' }).send();
+
+		const items = Array.from(document.querySelectorAll('#list > li'));
+
+		expect(items.map((item) => item.textContent)).toEqual(['', 'A2', 'C2', 'D']);
+		expect(items[0]).toBe(b);
+		expect(items[1]).toBe(a);
+		expect(a.className).toBe('done');
+		expect(document.querySelector('details')).toBe(details);
+		expect(details.open).toBe(true);
+		expect(document.querySelector<HTMLInputElement>('[name=b]').value).toBe('server');
+	});
+
+	it('does not change the value of the focused field', () => {
+		const input = document.querySelector<HTMLInputElement>('[name=b]');
+
+		input.focus();
+		input.value = 'edited';
+		morph(document.querySelector('#list'), '<li id="a">A</li><li data-key="b"><input name="b" value="server"></li>');
+
+		expect(document.activeElement).toBe(input);
+		expect(input.value).toBe('edited');
+	});
+
+	it('morphs selectors with the ~ prefix', async () => {
+		const a = document.querySelector('#a');
+		const transport = new MockTransport().on('onRefresh', partialsResponse({ list: '<li id="a">Morphed</li>' }));
+
+		await new WinterRequestExtras('#form', undefined, { transport, update: { list: '~#list' } }).send();
+
+		expect(document.querySelector('#a')).toBe(a);
+		expect(document.querySelector('#list').textContent).toBe('Morphed');
+	});
+});
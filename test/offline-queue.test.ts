@@ -0,0 +1,116 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WinterRequestExtras, getQueuedRequests, listenForReplay, removeQueuedRequest, replayQueue } from '../src';
+import { MockTransport, getRequestPayload } from '../src/testing';
+import { TransportError } from '../src/errors';
+
+describe('offline queue', () => {
+	let transport: MockTransport;
+	let dispose: () => void;
+
+	const send = (comment: string) => new WinterRequestExtras('#comment', undefined, { transport, offline: 'queue', data: { comment } }).send();
+
+	const goOffline = () => vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+	beforeEach(async () => {
+		for (const queued of await getQueuedRequests()) {
+			await removeQueuedRequest(queued.id);
+		}
+
+		transport = new MockTransport();
+		transport.on('onComment', { data: {} });
+		document.body.innerHTML = '<form id="comment" data-request="onComment"></form>';
+	});
+
+	afterEach(() => {
+		if (dispose) dispose();
+		dispose = undefined;
+	});
+
+	it('queues requests while the browser is offline, instead of sending them', async () => {
+		goOffline();
+		const listener = vi.fn();
+		document.querySelector('#comment').addEventListener('ajaxQueued', listener);
+
+		await send('first');
+
+		const queued = await getQueuedRequests();
+
+		expect(transport.requests).toHaveLength(0);
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(queued).toHaveLength(1);
+		expect(queued[0].handler).toBe('onComment');
+	});
+
+	it('queues requests that fail without a response', async () => {
+		transport.reset();
+		transport.on('onComment', () => { throw new TransportError('Network Error'); });
+
+		await send('first');
+
+		expect(await getQueuedRequests()).toHaveLength(1);
+	});
+
+	it('replays the queued requests in order, and removes them', async () => {
+		goOffline();
+		await send('first');
+		await send('second');
+
+		const done = vi.fn();
+		window.addEventListener('ajaxReplayDone', done);
+
+		await replayQueue(transport);
+		window.removeEventListener('ajaxReplayDone', done);
+
+		expect(transport.requests.map((request) => getRequestPayload(request).comment)).toEqual(['first', 'second']);
+		expect(done).toHaveBeenCalledTimes(2);
+		expect(await getQueuedRequests()).toHaveLength(0);
+	});
+
+	it('removes requests the server responded to with an error', async () => {
+		goOffline();
+		await send('first');
+
+		transport.reset();
+		transport.on('onComment', { status: 422, data: {} });
+
+		const fail = vi.fn();
+		window.addEventListener('ajaxReplayFail', fail, { once: true });
+
+		await replayQueue(transport);
+
+		expect(fail).toHaveBeenCalledTimes(1);
+		expect(await getQueuedRequests()).toHaveLength(0);
+	});
+
+	it('stops replaying at the first request that fails without a response', async () => {
+		goOffline();
+		await send('first');
+		await send('second');
+
+		transport.reset();
+		transport.on('onComment', () => { throw new TransportError('Network Error'); });
+
+		await replayQueue(transport);
+
+		expect(transport.requests).toHaveLength(1);
+		expect(await getQueuedRequests()).toHaveLength(2);
+	});
+
+	it('replays the queue when the browser is back online, until the listener is removed', async () => {
+		goOffline();
+		await send('first');
+
+		listenForReplay(transport)();
+		window.dispatchEvent(new Event('online'));
+		await new Promise((resolve) => setTimeout(resolve, 20));
+
+		expect(await getQueuedRequests()).toHaveLength(1);
+
+		dispose = listenForReplay(transport);
+		window.dispatchEvent(new Event('online'));
+		await vi.waitFor(async () => expect(await getQueuedRequests()).toHaveLength(0));
+
+		expect(transport.requests).toHaveLength(1);
+	});
+});
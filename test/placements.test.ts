@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { WinterRequestExtras, registerPlacement } from '../src';
+import { MockTransport } from '../src/testing';
+
+describe('partial placements', () => {
+	let transport: MockTransport;
+
+	beforeEach(() => {
+		transport = new MockTransport();
+		document.body.innerHTML = `
+			<form id="form" data-request="onUpdate"></form>
+			<div id="target"><p>Old</p></div>
+			<ul class="list"><li>1</li></ul>
+			<ul class="list"><li>1</li></ul>
+		`;
+	});
+
+	const send = (update: Record<string, string>, data: Record<string, unknown>) => {
+		transport.reset();
+		transport.on('onUpdate', { data });
+
+		return new WinterRequestExtras('#form', undefined, { transport, update }).send();
+	};
+
+	it('reads partials from X_WINTER_REQUEST_PARTIALS, or from the top-level keys', async () => {
+		await send({ content: '#target' }, { X_WINTER_REQUEST_PARTIALS: { content: '<p>Nested</p>' } });
+		expect(document.querySelector('#target').innerHTML).toBe('<p>Nested</p>');
+
+		await send({ content: '#target' }, { result: 'ignored', content: '<p>Top-level</p>' });
+		expect(document.querySelector('#target').innerHTML).toBe('<p>Top-level</p>');
+	});
+
+	it.each([
+		['#target', '<div id="target"><p>New</p></div>'],
+		['^#target', '<div id="target"><p>New</p><p>Old</p></div>'],
+		['@#target', '<div id="target"><p>Old</p><p>New</p></div>'],
+		['=#target', '<p>New</p>'],
+		['<#target', '<p>New</p><div id="target"><p>Old</p></div>'],
+		['>#target', '<div id="target"><p>Old</p></div><p>New</p>'],
+		['-#target', ''],
+	])('places partials with the %s selector', async (selector, html) => {
+		document.body.innerHTML = '<form id="form" data-request="onUpdate"></form><main><div id="target"><p>Old</p></div></main>';
+
+		await send({ content: selector }, { content: '<p>New</p>' });
+
+		expect(document.querySelector('main').innerHTML).toBe(html);
+	});
+
+	it('updates every matching element with the * prefix', async () => {
+		await send({ item: '*@.list' }, { item: '<li>2</li>' });
+
+		expect(Array.from(document.querySelectorAll('.list'), (list) => list.children.length)).toEqual([2, 2]);
+	});
+
+	it('ignores invalid selectors', async () => {
+		await expect(send({ content: '#[invalid' }, { content: '<p>New</p>' })).resolves.toBeTruthy();
+	});
+
+	it('triggers ajaxBeforeReplace, ajaxUpdate and ajaxUpdateComplete', async () => {
+		const events: Array<string> = [];
+		const target = document.querySelector('#target');
+
+		target.addEventListener('ajaxBeforeReplace', (ev: CustomEvent) => events.push(`ajaxBeforeReplace ${ev.detail.placement.mode}`));
+		target.addEventListener('ajaxUpdate', (ev: CustomEvent) => events.push(`ajaxUpdate ${ev.detail.placement.mode}`));
+
+		const onComplete = vi.fn();
+		window.addEventListener('ajaxUpdateComplete', onComplete, { once: true });
+
+		await send({ content: '#target', item: '*@.list' }, { content: '<p>New</p>', item: '<li>2</li>' });
+
+		expect(events).toEqual(['ajaxBeforeReplace replace', 'ajaxUpdate replace']);
+		expect(onComplete.mock.calls[0][0].detail.placements).toEqual([
+			{ partial: 'content', selector: '#target', mode: 'replace', all: false },
+			{ partial: 'item', selector: '.list', mode: 'append', all: true },
+		]);
+	});
+
+	it('triggers ajaxUpdate on the content inserted before or after the target', async () => {
+		const onUpdate = vi.fn();
+		document.body.addEventListener('ajaxUpdate', onUpdate);
+
+		await send({ content: '>#target' }, { content: '<p class="new">New</p>' });
+
+		document.body.removeEventListener('ajaxUpdate', onUpdate);
+
+		expect(onUpdate).toHaveBeenCalledTimes(1);
+		expect(onUpdate.mock.calls[0][0].target).toBe(document.querySelector('.new'));
+	});
+
+	it('uses placements registered with registerPlacement()', async () => {
+		registerPlacement('%', {
+			mode: 'wrap',
+			replaces: true,
+			place: (element, content) => {
+				const wrapper = document.createElement('section');
+
+				wrapper.appendChild(content);
+				element.replaceChildren(wrapper);
+			},
+		});
+
+		await send({ content: '%#target' }, { content: '<p>Wrapped</p>' });
+
+		expect(document.querySelector('#target').innerHTML).toBe('<section><p>Wrapped</p></section>');
+	});
+});
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WinterRequestExtras, stopPolling, watch } from '../src';
+import { MockTransport } from '../src/testing';
+
+describe('polling', () => {
+	let transport: MockTransport;
+	let stop: () => void;
+
+	const start = (interval = 1000) => {
+		stop = new WinterRequestExtras('#status', undefined, { transport }).poll(interval);
+	};
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		transport = new MockTransport();
+		transport.on('onStatus', { data: {} });
+		document.body.innerHTML = '<div id="status" data-request="onStatus"></div>';
+	});
+
+	afterEach(() => {
+		if (stop) stop();
+		stop = undefined;
+		vi.useRealTimers();
+	});
+
+	it('sends the request on an interval', async () => {
+		start();
+
+		await vi.advanceTimersByTimeAsync(999);
+		expect(transport.requests).toHaveLength(0);
+
+		await vi.advanceTimersByTimeAsync(1);
+		expect(transport.requests).toHaveLength(1);
+
+		await vi.advanceTimersByTimeAsync(2000);
+		expect(transport.requests).toHaveLength(3);
+	});
+
+	it('requires an interval', () => {
+		expect(() => new WinterRequestExtras('#status', undefined, { transport }).poll()).toThrow('A polling interval is required');
+	});
+
+	it('waits for the response before scheduling the next request', async () => {
+		transport.reset();
+		transport.on('onStatus', { data: {}, delay: 1500 });
+		start();
+
+		await vi.advanceTimersByTimeAsync(2000);
+		expect(transport.requests).toHaveLength(1);
+
+		await vi.advanceTimersByTimeAsync(1500);
+		expect(transport.requests).toHaveLength(2);
+	});
+
+	it('backs off after failures, without showing an alert', async () => {
+		const alert = vi.spyOn(window, 'alert').mockImplementation(() => undefined);
+		transport.reset();
+		transport.on('onStatus', { status: 500, data: {} });
+		start();
+
+		await vi.advanceTimersByTimeAsync(1000);
+		await vi.advanceTimersByTimeAsync(2000);
+		expect(transport.requests).toHaveLength(2);
+
+		await vi.advanceTimersByTimeAsync(3999);
+		expect(transport.requests).toHaveLength(2);
+
+		await vi.advanceTimersByTimeAsync(1);
+		expect(transport.requests).toHaveLength(3);
+		expect(alert).not.toHaveBeenCalled();
+	});
+
+	it('pauses while the browser is offline', async () => {
+		const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+		start();
+
+		await vi.advanceTimersByTimeAsync(5000);
+		expect(transport.requests).toHaveLength(0);
+
+		onLine.mockReturnValue(true);
+		window.dispatchEvent(new Event('online'));
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(transport.requests).toHaveLength(1);
+	});
+
+	it('stops when the element is removed, or with stopPolling()', async () => {
+		start();
+		await vi.advanceTimersByTimeAsync(1000);
+
+		stopPolling(document.querySelector('#status'));
+		await vi.advanceTimersByTimeAsync(5000);
+		expect(transport.requests).toHaveLength(1);
+
+		start();
+		document.querySelector('#status').remove();
+		await vi.advanceTimersByTimeAsync(5000);
+		expect(transport.requests).toHaveLength(1);
+	});
+
+	it('polls data-request-poll elements with watch()', async () => {
+		document.body.innerHTML = '<div id="status" data-request="onStatus" data-request-poll="500"></div>';
+		const dispose = watch({ requestOptions: { transport }, history: false, replayQueue: false });
+
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(transport.requests).toHaveLength(2);
+
+		dispose();
+		await vi.advanceTimersByTimeAsync(1000);
+		expect(transport.requests).toHaveLength(2);
+	});
+});
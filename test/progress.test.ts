@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FetchTransport, WinterRequestExtras } from '../src';
+import { MockTransport, partialsResponse } from '../src/testing';
+
+/**
+ * Responds to every request, reporting upload and download progress on the way.
+ */
+class FakeXMLHttpRequest extends EventTarget {
+	static last: FakeXMLHttpRequest;
+
+	upload = new EventTarget();
+	status = 0;
+	statusText = '';
+	responseText = '';
+	withCredentials = false;
+	method: string;
+	url: string;
+	body: unknown;
+
+	constructor() {
+		super();
+		FakeXMLHttpRequest.last = this;
+	}
+
+	open(method: string, url: string) {
+		this.method = method;
+		this.url = url;
+	}
+
+	setRequestHeader() {
+		// Headers are not checked
+	}
+
+	getAllResponseHeaders() {
+		return 'content-type: application/json\r\n';
+	}
+
+	abort() {
+		this.dispatchEvent(new Event('abort'));
+	}
+
+	send(body: unknown) {
+		this.body = body;
+
+		setTimeout(() => {
+			this.upload.dispatchEvent(new ProgressEvent('progress', { loaded: 50, total: 200, lengthComputable: true }));
+			this.upload.dispatchEvent(new ProgressEvent('progress', { loaded: 200, total: 200, lengthComputable: true }));
+			this.dispatchEvent(new ProgressEvent('progress', { loaded: 10, lengthComputable: false }));
+
+			this.status = 200;
+			this.statusText = 'OK';
+			this.responseText = JSON.stringify({ result: 'uploaded' });
+			this.dispatchEvent(new Event('load'));
+			this.dispatchEvent(new Event('loadend'));
+		});
+	}
+}
+
+describe('progress', () => {
+	beforeEach(() => {
+		document.body.innerHTML = '<form id="form" data-request="onUpload" data-request-loading="#progress"></form><progress id="progress"></progress>';
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('reports progress with ajaxProgress and on the loading element', async () => {
+		const transport = new MockTransport().on('onUpload', (request) => {
+			request.onUploadProgress(25, 100);
+			request.onDownloadProgress(10);
+
+			return partialsResponse({});
+		});
+
+		const events: Array<Record<string, unknown>> = [];
+		const progress = document.querySelector<HTMLProgressElement>('#progress');
+
+		document.querySelector('#form').addEventListener('ajaxProgress', (ev: CustomEvent) => {
+			const { direction, loaded, total, percent } = ev.detail;
+
+			events.push({ direction, loaded, total, percent });
+		});
+
+		await new WinterRequestExtras('#form', undefined, { transport }).send();
+
+		expect(events).toEqual([
+			{ direction: 'upload', loaded: 25, total: 100, percent: 25 },
+			{ direction: 'download', loaded: 10, total: undefined, percent: undefined },
+		]);
+		expect(progress.hasAttribute('value')).toBe(false);
+		expect(progress.style.getPropertyValue('--winter-progress')).toBe('');
+	});
+
+	it('sets the progress element to the percentage', async () => {
+		const progress = document.querySelector<HTMLProgressElement>('#progress');
+		const transport = new MockTransport().on('onUpload', (request) => {
+			request.onUploadProgress(30, 120);
+
+			return partialsResponse({});
+		});
+
+		await new WinterRequestExtras('#form', undefined, { transport }).send();
+
+		expect(progress.value).toBe(25);
+		expect(progress.style.getPropertyValue('--winter-progress')).toBe('25%');
+	});
+
+	it('reports upload progress from FetchTransport by sending form data with XMLHttpRequest', async () => {
+		vi.stubGlobal('XMLHttpRequest', FakeXMLHttpRequest);
+
+		const onUploadProgress = vi.fn();
+		const onDownloadProgress = vi.fn();
+		const data = new FormData();
+
+		data.append('file', new Blob(['content']), 'file.txt');
+
+		const response = await new FetchTransport().send({ url: '/upload', method: 'post', headers: {}, data, onUploadProgress, onDownloadProgress });
+
+		expect(FakeXMLHttpRequest.last.body).toBeInstanceOf(FormData);
+		expect(onUploadProgress.mock.calls).toEqual([[50, 200], [200, 200]]);
+		expect(onDownloadProgress).toHaveBeenCalledWith(10, undefined);
+		expect(response).toMatchObject({ status: 200, data: { result: 'uploaded' } });
+	});
+});
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WinterRequest, WinterRequestExtras, clearRequests, enableRequestRegistry, getRequestRecord, getRequests, subscribeRequests } from '../src';
+import { MockTransport, errorResponse, partialsResponse } from '../src/testing';
+
+describe('request registry', () => {
+	let transport: MockTransport;
+	let disable: () => void;
+
+	const send = (options = {}) => new WinterRequest('onSave', Object.assign({ transport, data: { name: 'Winter' }, update: { form: '#form' } }, options)).send();
+
+	beforeEach(() => {
+		transport = new MockTransport();
+		transport.on('onSave', partialsResponse({ form: '<p>Saved</p>' }, 'ok'));
+		transport.on('onFail', errorResponse('Something went wrong'));
+	});
+
+	afterEach(() => {
+		if (disable) disable();
+		disable = undefined;
+	});
+
+	it('does not record requests unless it is enabled', async () => {
+		const request = new WinterRequest('onSave', { transport });
+
+		await request.send();
+
+		expect(getRequests()).toEqual([]);
+		expect(getRequestRecord(request)).toBeUndefined();
+	});
+
+	it('records summaries of requests', async () => {
+		disable = enableRequestRegistry();
+
+		await send();
+
+		const [record] = getRequests();
+
+		expect(record).toMatchObject({
+			handler: 'onSave',
+			status: 'succeeded',
+			method: 'post',
+			partials: ['form'],
+			payloadKeys: ['name'],
+			responseStatus: 200,
+			responseKeys: ['result', 'form'],
+		});
+		expect(record.duration).toBeGreaterThanOrEqual(0);
+		expect(record).not.toHaveProperty('request');
+		expect(record).not.toHaveProperty('payload');
+	});
+
+	it('records failed requests with their error', async () => {
+		disable = enableRequestRegistry();
+
+		await new WinterRequest('onFail', { transport, onError: async () => undefined }).send();
+
+		expect(getRequests('failed')).toHaveLength(1);
+		expect(getRequests('onFail')[0].error).toBe('Request failed with status code 406');
+	});
+
+	it('keeps the request instance and payload when asked to', async () => {
+		disable = enableRequestRegistry({ request: true, payload: true });
+
+		const request = new WinterRequest('onSave', { transport, data: { name: 'Winter' } });
+		await request.send();
+
+		const record = getRequestRecord(request);
+
+		expect(record.request).toBe(request);
+		expect(record.payload).toBe(transport.lastRequest('onSave').data);
+	});
+
+	it('only keeps the request instance and payload while a caller asked for them', async () => {
+		const disableSummaries = enableRequestRegistry();
+		const disablePayloads = enableRequestRegistry({ payload: true });
+
+		disablePayloads();
+		disable = disableSummaries;
+
+		await send();
+
+		expect(getRequests()[0]).not.toHaveProperty('payload');
+	});
+
+	it('records the partials placed on the page', async () => {
+		disable = enableRequestRegistry();
+		document.body.innerHTML = '<form id="form" data-request="onSave"></form>';
+
+		await new WinterRequestExtras('#form', undefined, { transport, update: { form: '#form' } }).send();
+
+		expect(getRequests()[0].updated).toEqual([{ partial: 'form', selector: '#form', elements: 1 }]);
+	});
+
+	it('notifies subscribers, and clears finished requests', async () => {
+		disable = enableRequestRegistry();
+		const statuses: Array<string> = [];
+		const unsubscribe = subscribeRequests((record) => statuses.push(record.status));
+
+		await send();
+		unsubscribe();
+
+		expect(statuses).toEqual(['queued', 'sent', 'succeeded']);
+
+		clearRequests();
+
+		expect(getRequests()).toEqual([]);
+	});
+
+	it('clears the records once it is disabled', async () => {
+		disable = enableRequestRegistry();
+
+		await send();
+		disable();
+
+		expect(getRequests()).toEqual([]);
+	});
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TransportError, WinterRequest } from '../src';
+import { MockTransport, assertRequestSent, errorResponse, partialsResponse } from '../src/testing';
+
+describe('WinterRequest', () => {
+	let transport: MockTransport;
+
+	it('sends the handler, partials and data', async () => {
+		transport = new MockTransport().on('onSave', partialsResponse({ myPartial: '<p>Saved</p>' }, 'ok'));
+
+		const response = await new WinterRequest('onSave', { transport, update: { myPartial: '#target' }, data: { name: 'Winter' } }).send();
+
+		assertRequestSent(transport, 'onSave', {
+			headers: { 'X-REQUESTED-WITH': 'XMLHttpRequest' },
+			partials: ['myPartial'],
+			data: { name: 'Winter' },
+		});
+		expect(response && response.data).toEqual({ result: 'ok', myPartial: '<p>Saved</p>' });
+	});
+
+	it('merges the data passed to send() into the data option', async () => {
+		transport = new MockTransport().on('onSave', partialsResponse({}));
+
+		await new WinterRequest('onSave', { transport, data: { a: 1, b: 2 } }).send({ b: 3 });
+
+		assertRequestSent(transport, 'onSave', { data: { a: 1, b: 3 } });
+	});
+
+	it('calls onError instead of rejecting when the request fails', async () => {
+		transport = new MockTransport().on('onSave', errorResponse('Something went wrong'));
+
+		const onSuccess = vi.fn();
+		const onError = vi.fn();
+		const onComplete = vi.fn();
+
+		const response = await new WinterRequest('onSave', { transport, onSuccess, onError, onComplete, onErrorMessage: vi.fn() }).send();
+
+		expect(response).toBeUndefined();
+		expect(onSuccess).not.toHaveBeenCalled();
+		expect(onError).toHaveBeenCalledWith(expect.any(TransportError));
+		expect(onError.mock.calls[0][0].response.status).toBe(406);
+		expect(onComplete).toHaveBeenCalledTimes(1);
+	});
+
+	it('does not send the request when the confirmation is declined', async () => {
+		transport = new MockTransport().on('onDelete', partialsResponse({}));
+
+		const response = await new WinterRequest('onDelete', { transport, confirm: 'Are you sure?', onConfirmMessage: async () => false }).send();
+
+		expect(response).toBeUndefined();
+		expect(transport.requests).toHaveLength(0);
+	});
+
+	it('treats cancelled requests as neither succeeded nor failed', async () => {
+		transport = new MockTransport().on('onSlow', Object.assign(partialsResponse({}), { delay: 50 }));
+
+		const onSuccess = vi.fn();
+		const onError = vi.fn();
+		const request = new WinterRequest('onSlow', { transport, onSuccess, onError });
+		const sent = request.send();
+
+		request.cancel();
+
+		expect(await sent).toBeUndefined();
+		expect(onSuccess).not.toHaveBeenCalled();
+		expect(onError).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { WinterRequest } from '../src';
+import { MockTransport, partialsResponse } from '../src/testing';
+import { getRetryDelay, getRetryOptions, isRetryable } from '../src/request/retry';
+import { TransportError } from '../src/errors';
+
+const failure = (status?: number, headers: Record<string, string> = {}) => new TransportError('Failed', status ? { status, statusText: '', headers, data: { result: null } } : undefined);
+
+describe('retry', () => {
+	it('retries timeouts, rate limits and maintenance mode by default', () => {
+		const options = getRetryOptions(true);
+
+		expect([408, 429, 503].map((status) => isRetryable(failure(status), options))).toEqual([true, true, true]);
+	});
+
+	it('does not retry other server errors or network errors unless enabled', () => {
+		expect([500, 502, 504].some((status) => isRetryable(failure(status), getRetryOptions(true)))).toBe(false);
+		expect(isRetryable(failure(), getRetryOptions(true))).toBe(false);
+
+		const options = getRetryOptions({ statusCodes: [500], networkErrors: true });
+
+		expect(isRetryable(failure(500), options)).toBe(true);
+		expect(isRetryable(failure(), options)).toBe(true);
+	});
+
+	it('never retries smart errors', () => {
+		expect(isRetryable(failure(406), getRetryOptions({ statusCodes: [406] }))).toBe(false);
+	});
+
+	it('backs off exponentially up to maxDelay', () => {
+		const options = getRetryOptions({ delay: 100, factor: 2, maxDelay: 300, jitter: false });
+
+		expect([1, 2, 3].map((attempt) => getRetryDelay(failure(503), attempt, options))).toEqual([100, 200, 300]);
+	});
+
+	it('honors Retry-After up to maxDelay', () => {
+		const options = getRetryOptions({ maxDelay: 5000, jitter: false });
+
+		expect(getRetryDelay(failure(429, { 'retry-after': '2' }), 1, options)).toBe(2000);
+		expect(getRetryDelay(failure(429, { 'retry-after': '120' }), 1, options)).toBe(5000);
+	});
+
+	it('sends the request again after a transient failure', async () => {
+		const transport = new MockTransport()
+			.on('onSave', { status: 503, data: {} })
+			.on('onSave', partialsResponse({}, 'ok'));
+
+		const onRetry = vi.fn();
+		const response = await new WinterRequest('onSave', { transport, retry: { attempts: 2, delay: 1, jitter: false }, onRetry }).send();
+
+		expect(transport.requests).toHaveLength(2);
+		expect(onRetry).toHaveBeenCalledTimes(1);
+		expect(response).toMatchObject({ data: { result: 'ok' } });
+	});
+
+	it('stops retrying when cancelled while waiting for the next attempt', async () => {
+		const transport = new MockTransport().on('onSave', { status: 503, data: {} });
+
+		const onError = vi.fn();
+		const request = new WinterRequest('onSave', { transport, retry: { attempts: 3, delay: 1000, jitter: false }, onError, onRetry: async () => request.cancel() });
+
+		expect(await request.send()).toBeUndefined();
+		expect(transport.requests).toHaveLength(1);
+		expect(onError).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { WinterRequestExtras } from '../src';
+import { MockTransport, assertRequestSent, getRequestPayload, partialsResponse } from '../src/testing';
+import { flattenFields, mergeData, parseFieldName, serializeFields } from '../src/utils/serialize';
+import { isPlainObject } from '../src/utils/is-plain-object';
+
+describe('serializing fields', () => {
+	it('parses PHP-style field names', () => {
+		expect(parseFieldName('name')).toEqual(['name']);
+		expect(parseFieldName('user[address][city]')).toEqual(['user', 'address', 'city']);
+		expect(parseFieldName('tags[]')).toEqual(['tags', '']);
+		expect(parseFieldName('invalid]name')).toEqual(['invalid]name']);
+	});
+
+	it('builds nested objects and arrays from field names', () => {
+		expect(serializeFields([
+			['user[name]', 'Winter'],
+			['user[address][city]', 'Perth'],
+			['tags[]', 'a'],
+			['tags[]', 'b'],
+			['items[0][id]', '1'],
+			['items[1][id]', '2'],
+			['name', 'first'],
+			['name', 'last'],
+		])).toEqual({
+			user: { name: 'Winter', address: { city: 'Perth' } },
+			tags: ['a', 'b'],
+			items: [{ id: '1' }, { id: '2' }],
+			name: 'last',
+		});
+	});
+
+	it('keeps objects with keys that are not a list', () => {
+		expect(serializeFields([['items[1]', 'b'], ['items[2]', 'c']])).toEqual({ items: { 1: 'b', 2: 'c' } });
+	});
+
+	it('flattens nested data into field names', () => {
+		expect(flattenFields({ user: { address: { city: 'Perth' } }, 'tags[]': ['a', 'b'], ids: [1, 2], empty: null })).toEqual([
+			['user[address][city]', 'Perth'],
+			['tags[]', 'a'],
+			['tags[]', 'b'],
+			['ids[0]', '1'],
+			['ids[1]', '2'],
+			['empty', ''],
+		]);
+	});
+
+	it('merges plain objects deeply, and replaces arrays', () => {
+		expect(mergeData({ user: { name: 'Winter', city: 'Perth' }, tags: ['a', 'b'] }, { user: { city: 'Hobart' }, tags: ['c'] }))
+			.toEqual({ user: { name: 'Winter', city: 'Hobart' }, tags: ['c'] });
+	});
+
+	it('only treats plain objects as plain objects', () => {
+		expect(isPlainObject({})).toBe(true);
+		expect(isPlainObject(Object.create(null))).toBe(true);
+		expect(isPlainObject([])).toBe(false);
+		expect(isPlainObject(null)).toBe(false);
+		expect(isPlainObject(new Date())).toBe(false);
+		expect(isPlainObject(document.createElement('div'))).toBe(false);
+	});
+});
+
+describe('sending JSON', () => {
+	let transport: MockTransport;
+
+	beforeEach(() => {
+		transport = new MockTransport();
+		transport.on('onSave', partialsResponse({}));
+		document.body.innerHTML = `
+			<form id="form" data-request="onSave">
+				<input name="user[name]" value="Winter">
+				<input name="user[address][city]" value="Perth">
+				<input name="tags[]" value="a" type="checkbox" checked>
+				<input name="tags[]" value="b" type="checkbox" checked>
+				<input name="colors[]" value="red" type="checkbox">
+				<input name="subscribe" value="1" type="checkbox">
+				<select name="sizes[]" multiple>
+					<option value="s" selected>S</option>
+					<option value="m" selected>M</option>
+				</select>
+			</form>
+		`;
+	});
+
+	const send = (options = {}) => new WinterRequestExtras('#form', undefined, Object.assign({ transport, json: true }, options)).send();
+
+	it('sends nested data', async () => {
+		await send();
+
+		expect(getRequestPayload(transport.lastRequest('onSave'))).toEqual({
+			user: { name: 'Winter', address: { city: 'Perth' } },
+			tags: ['a', 'b'],
+			sizes: ['s', 'm'],
+		});
+	});
+
+	it('sends unchecked checkboxes with the serializeUnchecked option', async () => {
+		await send({ serializeUnchecked: true });
+
+		assertRequestSent(transport, 'onSave', { data: { tags: ['a', 'b'], colors: [], subscribe: false } });
+	});
+
+	it('merges data-request-data into the nested data', async () => {
+		document.querySelector('#form').setAttribute('data-request-data', 'user: { address: { country: "AU" } }');
+
+		await send();
+
+		assertRequestSent(transport, 'onSave', { data: { user: { name: 'Winter', address: { city: 'Perth', country: 'AU' } } } });
+	});
+});
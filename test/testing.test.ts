@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { WinterRequest } from '../src';
+import { RequestAssertionError, TransportError } from '../src/errors';
+import { MockTransport, assertNoRequestSent, assertRequestSent, errorResponse, getRequestPayload, partialsResponse, redirectResponse, validationResponse } from '../src/testing';
+
+describe('MockTransport', () => {
+	it('responds with the queued responses in order, repeating the last one', async () => {
+		const transport = new MockTransport()
+			.on('onSave', partialsResponse({}, 'first'))
+			.on('onSave', partialsResponse({}, 'second'));
+
+		const results = [];
+
+		for (let i = 0; i < 3; i++) {
+			results.push((await transport.send({ url: '/', method: 'post', headers: { 'X-WINTER-REQUEST-HANDLER': 'onSave' } })).data.result);
+		}
+
+		expect(results).toEqual(['first', 'second', 'second']);
+	});
+
+	it('builds the response from a function of the request', async () => {
+		const transport = new MockTransport().on('onEcho', (request) => partialsResponse({}, request.data));
+
+		const response = await new WinterRequest('onEcho', { transport, data: { name: 'Winter' } }).send();
+
+		expect(response).toMatchObject({ data: { result: { name: 'Winter' } } });
+	});
+
+	it('rejects with the response for error status codes', async () => {
+		const transport = new MockTransport().on('onSave', errorResponse('Failed'));
+
+		const error = await transport.send({ url: '/', method: 'post', headers: { 'X-WINTER-REQUEST-HANDLER': 'onSave' } }).catch((e) => e);
+
+		expect(error).toBeInstanceOf(TransportError);
+		expect(error.response).toMatchObject({ status: 406, data: { X_WINTER_ERROR_MESSAGE: 'Failed' } });
+	});
+
+	it('rejects requests to handlers without a response', async () => {
+		const transport = new MockTransport();
+
+		await expect(transport.send({ url: '/', method: 'post', headers: { 'X-WINTER-REQUEST-HANDLER': 'onMissing' } })).rejects.toThrow('No mock response registered for handler "onMissing".');
+	});
+
+	it('records the requests sent to each handler', async () => {
+		const transport = new MockTransport().on('onA', partialsResponse({})).on('onB', partialsResponse({}));
+
+		await new WinterRequest('onA', { transport }).send();
+		await new WinterRequest('onB', { transport }).send();
+		await new WinterRequest('onA', { transport, data: { last: true } }).send();
+
+		expect(transport.requests).toHaveLength(3);
+		expect(transport.requestsFor('onA')).toHaveLength(2);
+		expect(getRequestPayload(transport.lastRequest('onA'))).toEqual({ last: true });
+
+		transport.reset();
+
+		expect(transport.requests).toHaveLength(0);
+	});
+});
+
+describe('responses', () => {
+	it('builds validation and redirect responses', () => {
+		expect(validationResponse({ email: ['Required.'] })).toMatchObject({ status: 406, data: { X_WINTER_ERROR_MESSAGE: 'Required.', X_WINTER_ERROR_FIELDS: { email: ['Required.'] } } });
+		expect(redirectResponse('/done')).toMatchObject({ data: { X_WINTER_REDIRECT: '/done' } });
+	});
+});
+
+describe('assertions', () => {
+	it('passes when the request matches', async () => {
+		const transport = new MockTransport().on('onSave', partialsResponse({}));
+
+		await new WinterRequest('onSave', { transport, update: { a: '#a', b: '#b' }, flash: true, data: { tags: ['x', 'y'], name: 'Winter' } }).send();
+
+		expect(() => assertRequestSent(transport, 'onSave', { partials: ['b', 'a'], flash: true, data: { tags: ['x', 'y'] } })).not.toThrow();
+		expect(() => assertNoRequestSent(transport, 'onOther')).not.toThrow();
+	});
+
+	it('throws a RequestAssertionError describing the difference', async () => {
+		const transport = new MockTransport().on('onSave', partialsResponse({}));
+
+		await new WinterRequest('onSave', { transport, data: { name: 'Winter' } }).send();
+
+		expect(() => assertRequestSent(transport, 'onSave', { data: { name: 'Summer' } })).toThrow(new RequestAssertionError('Expected payload "name" to be "Summer", but got "Winter".'));
+		expect(() => assertRequestSent(transport, 'onOther')).toThrow(RequestAssertionError);
+		expect(() => assertNoRequestSent(transport, 'onSave')).toThrow('Expected no request to be sent to "onSave", but 1 were sent.');
+	});
+
+	it('reads the payload of URL-encoded and form data requests', () => {
+		const params = new URLSearchParams([['tags[]', 'a'], ['tags[]', 'b'], ['name', 'Winter']]);
+
+		expect(getRequestPayload({ url: '/', method: 'post', data: params })).toEqual({ 'tags[]': ['a', 'b'], name: 'Winter' });
+	});
+});
@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { WinterRequestExtras, registerValidationRule, validateForm } from '../src';
+import { MockTransport, assertNoRequestSent, assertRequestSent, partialsResponse } from '../src/testing';
+import { WinterRequestError } from '../src/errors';
+import { getValidationSummary, parseRules } from '../src/extras/utils/validate-rules';
+
+/**
+ * Creates a form with the fields, and validates it.
+ *
+ * @param html The fields.
+ * @returns The validation messages.
+ */
+function validate(html: string): Record<string, Array<string>> {
+	document.body.innerHTML = `<form id="form">${html}</form>`;
+
+	return validateForm(document.querySelector('#form'));
+}
+
+describe('client-side validation rules', () => {
+	it('parses rules and their parameters', () => {
+		expect(parseRules('required|max:255|between:1,10|regex:/^a,b$/')).toEqual({
+			required: [],
+			max: ['255'],
+			between: ['1', '10'],
+			regex: ['/^a,b$/'],
+		});
+	});
+
+	it('reports failures in the shape of X_WINTER_ERROR_FIELDS', () => {
+		expect(validate(`
+			<input name="email" value="not-an-email" data-validate-rules="required|email">
+			<input name="user[first_name]" value="" data-validate-rules="required">
+		`)).toEqual({
+			email: ['The email must be a valid email address.'],
+			'user.first_name': ['The user.first name field is required.'],
+		});
+	});
+
+	it('only checks empty values with the implicit rules', () => {
+		expect(validate('<input name="email" value="" data-validate-rules="email|min:3">')).toEqual({});
+	});
+
+	it('measures sizes by the type of value', () => {
+		expect(validate(`
+			<input name="title" value="ab" data-validate-rules="min:3">
+			<input name="age" value="12" data-validate-rules="numeric|min:18">
+			<input name="tags[]" value="a" type="checkbox" checked data-validate-rules="max:0">
+		`)).toEqual({
+			title: ['The title must be at least 3 characters.'],
+			age: ['The age must be at least 18.'],
+			tags: ['The tags must not have more than 0 items.'],
+		});
+	});
+
+	it('compares fields with the confirmed and same rules, using data-validate-attribute', () => {
+		expect(validate(`
+			<input name="password" value="secret" data-validate-rules="confirmed" data-validate-attribute="Password">
+			<input name="password_confirmation" value="other">
+			<input name="email" value="a@example.com" data-validate-rules="same:backup_email">
+			<input name="backup_email" value="b@example.com" data-validate-attribute="backup address">
+		`)).toEqual({
+			password: ['The Password confirmation does not match.'],
+			email: ['The email and backup address must match.'],
+		});
+	});
+
+	it('converts PHP regular expressions', () => {
+		expect(validate('<input name="code" value="ABC" data-validate-rules="regex:/^[a-z]+$/i">')).toEqual({});
+		expect(validate('<input name="code" value="123" data-validate-rules="regex:/^[a-z]+$/i">')).toEqual({ code: ['The code format is invalid.'] });
+	});
+
+	it('throws for regular expressions with an invalid pattern', () => {
+		expect(() => validate('<input name="code" value="abc" data-validate-rules="regex:/^[a-z+$/">')).toThrow(WinterRequestError);
+	});
+
+	it('does not validate disabled fields', () => {
+		expect(validate('<input name="name" value="" data-validate-rules="required" disabled>')).toEqual({});
+	});
+
+	it('validates registered rules', () => {
+		registerValidationRule('uppercase', {
+			validate: (value) => typeof value === 'string' && value === value.toUpperCase(),
+			message: 'The :attribute must be uppercase.',
+		});
+
+		expect(validate('<input name="code" value="abc" data-validate-rules="uppercase">')).toEqual({ code: ['The code must be uppercase.'] });
+	});
+
+	it('summarizes the messages like Laravel', () => {
+		expect(getValidationSummary({ name: ['First.'] })).toBe('First.');
+		expect(getValidationSummary({ name: ['First.', 'Second.'], email: ['Third.'] })).toBe('First. (and 2 more errors)');
+	});
+});
+
+describe('validating before sending', () => {
+	let transport: MockTransport;
+
+	beforeEach(() => {
+		transport = new MockTransport();
+		transport.on('onSave', partialsResponse({}));
+		document.body.innerHTML = `
+			<form id="form" data-request="onSave">
+				<input name="name" value="Winter" data-validate-rules="required|min:10">
+			</form>
+		`;
+	});
+
+	it('does not send the request when client-side validation fails', async () => {
+		const onValidationMessage = vi.fn();
+
+		expect(await new WinterRequestExtras('#form', undefined, { transport, onValidationMessage }).send()).toBeUndefined();
+
+		assertNoRequestSent(transport, 'onSave');
+		expect(onValidationMessage).toHaveBeenCalledWith('The name must be at least 10 characters.', { name: ['The name must be at least 10 characters.'] });
+	});
+
+	it('sends the request with the clientValidate option turned off', async () => {
+		document.querySelector('#form').setAttribute('data-request-client-validate', 'false');
+
+		await new WinterRequestExtras('#form', undefined, { transport }).send();
+
+		assertRequestSent(transport, 'onSave');
+	});
+});
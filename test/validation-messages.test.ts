@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { WinterRequestExtras } from '../src';
+import { MockTransport, partialsResponse, validationResponse } from '../src/testing';
+
+describe('validation messages', () => {
+	let transport: MockTransport;
+
+	beforeEach(() => {
+		vi.spyOn(window, 'alert').mockImplementation(() => undefined);
+
+		transport = new MockTransport();
+		document.body.innerHTML = `
+			<form id="form" data-request="onSave">
+				<input name="email">
+				<div data-validate-for="email"></div>
+				<input name="user[name]">
+				<div data-validate-for="user[name]">Custom message</div>
+				<div data-validate-error><p data-message></p></div>
+			</form>
+		`;
+	});
+
+	const send = () => new WinterRequestExtras('#form', undefined, { transport }).send();
+	const errors = validationResponse({ email: ['The email is required.'], 'user.name': ['The name is required.'] });
+
+	it('displays the messages of each field, and marks the fields as invalid', async () => {
+		transport.on('onSave', errors);
+
+		await send();
+
+		const email = document.querySelector('[name=email]');
+		const container = document.querySelector('[data-validate-for=email]');
+
+		expect(container.textContent).toBe('The email is required.');
+		expect(container.classList.contains('visible')).toBe(true);
+		expect(email.classList.contains('is-invalid')).toBe(true);
+		expect(email.getAttribute('aria-invalid')).toBe('true');
+		expect(email.getAttribute('aria-describedby')).toBe(container.id);
+		expect(document.activeElement).toBe(email);
+
+		// Containers with their own text keep it
+		expect(document.querySelector('[data-validate-for="user[name]"]').textContent).toBe('Custom message');
+	});
+
+	it('clones the message template for each message', async () => {
+		transport.on('onSave', errors);
+
+		await send();
+
+		const messages = Array.from(document.querySelectorAll<HTMLElement>('[data-validate-error] [data-message]'));
+
+		expect(messages.filter((message) => !message.hidden).map((message) => message.textContent)).toEqual(['The email is required.', 'The name is required.']);
+	});
+
+	it('clears the messages when the form sends its next request', async () => {
+		transport.on('onSave', errors).on('onSave', partialsResponse({}));
+
+		await send();
+		await send();
+
+		const email = document.querySelector('[name=email]');
+		const messages = document.querySelectorAll<HTMLElement>('[data-validate-error] [data-message]');
+
+		expect(document.querySelector('[data-validate-for=email]').textContent).toBe('');
+		expect(document.querySelector('[data-validate-for="user[name]"]').textContent).toBe('Custom message');
+		expect(document.querySelectorAll('.visible')).toHaveLength(0);
+		expect(messages).toHaveLength(1);
+		expect(messages[0].hidden).toBe(false);
+		expect(messages[0].textContent).toBe('');
+		expect(email.hasAttribute('aria-invalid')).toBe(false);
+		expect(email.hasAttribute('aria-describedby')).toBe(false);
+		expect(email.classList.contains('is-invalid')).toBe(false);
+	});
+
+	it('replaces the messages of the previous request', async () => {
+		transport.on('onSave', errors).on('onSave', validationResponse({ email: ['The email is invalid.'] }));
+
+		await send();
+		await send();
+
+		const messages = Array.from(document.querySelectorAll<HTMLElement>('[data-validate-error] [data-message]'));
+
+		expect(messages.filter((message) => !message.hidden).map((message) => message.textContent)).toEqual(['The email is invalid.']);
+		expect(document.querySelector('[data-validate-for="user[name]"]').classList.contains('visible')).toBe(false);
+	});
+
+	it('displays the exception message in the error container without a template, and restores its text', async () => {
+		document.querySelector('[data-validate-error]').innerHTML = 'Please check the form.';
+		transport.on('onSave', validationResponse({ email: ['The email is required.'] }, 'The form is invalid.')).on('onSave', partialsResponse({}));
+
+		await send();
+
+		expect(document.querySelector('[data-validate-error]').textContent).toBe('The form is invalid.');
+
+		await send();
+
+		expect(document.querySelector('[data-validate-error]').textContent).toBe('Please check the form.');
+	});
+});
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { watch } from '../src';
+import { MockTransport, getRequestPayload } from '../src/testing';
+import { RequestOptions } from '../src/extras/types';
+
+describe('watch', () => {
+	let transport: MockTransport;
+	let dispose: () => void;
+
+	const start = (requestOptions: RequestOptions = {}, trackInput: false | number = false) => {
+		dispose = watch({ requestOptions: Object.assign({ transport }, requestOptions), trackInput, history: false, replayQueue: false });
+	};
+
+	const flush = () => new Promise((resolve) => setTimeout(resolve));
+
+	beforeEach(() => {
+		transport = new MockTransport();
+		transport.on('onClick', { data: {} });
+		transport.on('onSubmit', { data: {} });
+		transport.on('onSearch', { data: {} });
+		document.body.innerHTML = `
+			<button id="button" data-request="onClick">Click</button>
+			<form id="form" data-request="onSubmit"><button type="submit">Submit</button></form>
+			<input id="search" type="text" name="q" data-request="onSearch" data-track-input>
+		`;
+	});
+
+	afterEach(() => {
+		if (dispose) dispose();
+		dispose = undefined;
+	});
+
+	it('sends requests from clicked elements and submitted forms', async () => {
+		start();
+
+		document.querySelector<HTMLElement>('#button').click();
+		document.querySelector('#form').dispatchEvent(new Event('submit', { bubbles: true, cancelable: true }));
+		await flush();
+
+		expect(transport.requestsFor('onClick')).toHaveLength(1);
+		expect(transport.requestsFor('onSubmit')).toHaveLength(1);
+	});
+
+	it('removes its listeners when disposed', async () => {
+		start();
+		dispose();
+
+		document.querySelector<HTMLElement>('#button').click();
+		await flush();
+
+		expect(transport.requests).toHaveLength(0);
+	});
+
+	it('triggers ajaxBackgroundError if a callback throws an error', async () => {
+		const error = new Error('Callback failed');
+		const listener = vi.fn();
+
+		start({ onComplete: async () => { throw error; } });
+		document.querySelector('#button').addEventListener('ajaxBackgroundError', listener);
+
+		document.querySelector<HTMLElement>('#button').click();
+		await flush();
+
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(listener.mock.calls[0][0].detail.error).toBe(error);
+	});
+
+	it('sends requests from inputs when the enter key is pressed', async () => {
+		start({}, 300);
+
+		document.querySelector('#search').dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }));
+		await flush();
+
+		expect(transport.requestsFor('onSearch')).toHaveLength(1);
+	});
+
+	it('sends requests from tracked inputs once the user stops typing', async () => {
+		vi.useFakeTimers();
+
+		try {
+			start({}, 300);
+
+			const input = document.querySelector<HTMLInputElement>('#search');
+
+			for (const value of ['w', 'wi', 'win']) {
+				input.value = value;
+				input.dispatchEvent(new KeyboardEvent('keyup', { bubbles: true }));
+				await vi.advanceTimersByTimeAsync(100);
+			}
+
+			expect(transport.requestsFor('onSearch')).toHaveLength(0);
+
+			await vi.advanceTimersByTimeAsync(300);
+
+			expect(transport.requestsFor('onSearch')).toHaveLength(1);
+			expect(getRequestPayload(transport.lastRequest('onSearch'))).toMatchObject({ q: 'win' });
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+});
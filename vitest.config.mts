@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+	test: {
+		include: ['test/**/*.test.ts'],
+		environment: 'jsdom',
+		environmentOptions: {
+			jsdom: {
+				url: 'https://example.test/page',
+			},
+		},
+		restoreMocks: true,
+	},
+});